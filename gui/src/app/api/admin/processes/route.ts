@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { listManagedProcesses, reconcileProcessRecords } from '@/lib/serverProcess';
+import { HAS_PROCFS } from '@/lib/procfs';
+
+// Ensure Node runtime for fs and /proc
+export const runtime = 'nodejs';
+
+/** Every server process the GUI has a record for, checked against /proc. */
+export async function GET() {
+    try {
+        return NextResponse.json({ procfs: HAS_PROCFS, processes: await listManagedProcesses() });
+    } catch (error) {
+        console.error('Error listing processes:', error);
+        return NextResponse.json({ error: 'Failed to list processes' }, { status: 500 });
+    }
+}
+
+/** Re-run the startup reconciliation: clear stale records, upgrade legacy pid files. */
+export async function POST() {
+    try {
+        const results = await reconcileProcessRecords();
+        return NextResponse.json({ ok: true, results, processes: await listManagedProcesses() });
+    } catch (error) {
+        console.error('Error reconciling processes:', error);
+        return NextResponse.json({ error: 'Failed to reconcile processes' }, { status: 500 });
+    }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import fs from 'fs';
+import path from 'path';
+import { BACKUP_DIR, isArchiveName, restoreBackup } from '@/lib/backups';
+import { getServerState } from '@/lib/serverProcess';
+import { readWorldInfo, validateWorldName, worldDir } from '@/lib/worlds';
+
+// Ensure Node runtime for fs and child_process
+export const runtime = 'nodejs';
+
+type Body = {
+    name?: string;          // archive file name
+    targetWorld?: string;   // restore into this world (existing or new)
+    overwrite?: boolean;    // required to replace an existing world folder
+};
+
+export async function POST(request: Request) {
+    try {
+        const { name = '', targetWorld = '', overwrite = false }: Body = await request.json();
+        const target = targetWorld.trim();
+        if (!isArchiveName(name)) {
+            return NextResponse.json({ error: 'Invalid backup name' }, { status: 400 });
+        }
+        if (!target) {
+            return NextResponse.json({ error: 'targetWorld is required' }, { status: 400 });
+        }
+        if (!validateWorldName(target)) {
+            return NextResponse.json({ error: 'Invalid world name' }, { status: 400 });
+        }
+        if (!fs.existsSync(path.join(BACKUP_DIR, name))) {
+            return NextResponse.json({ error: `Backup "${name}" not found` }, { status: 404 });
+        }
+
+        const { state } = await getServerState(target);
+        if (state !== 'stopped') {
+            return NextResponse.json({ error: 'Stop the server before restoring over this world' }, { status: 409 });
+        }
+
+        if (fs.existsSync(worldDir(target)) && !overwrite) {
+            return NextResponse.json(
+                { error: `World "${target}" already exists; pass overwrite to replace it` },
+                { status: 409 }
+            );
+        }
+
+        const result = await restoreBackup(name, target, { overwrite });
+        const world = await readWorldInfo(result.world);
+        return NextResponse.json({ ok: true, replaced: result.replaced, world });
+    } catch (error) {
+        console.error('Error restoring backup:', error);
+        const msg = error instanceof Error ? error.message : 'Failed to restore backup';
+        return NextResponse.json({ error: msg }, { status: 500 });
+    }
+}
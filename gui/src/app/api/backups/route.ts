@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { createBackup, deleteBackup, isArchiveName, listBackups, readLastBackup } from '@/lib/backups';
+import { pruneBackups } from '@/lib/backupScheduler';
+import { getServerState } from '@/lib/serverProcess';
+import { validateWorldName } from '@/lib/worlds';
+
+// Ensure Node runtime for fs and child_process
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const world = searchParams.get('world');
+        if (world && !validateWorldName(world)) {
+            return NextResponse.json({ error: 'Invalid world name' }, { status: 400 });
+        }
+
+        const backups = await listBackups(world ?? undefined);
+        const lastBackupAt = world ? ((await readLastBackup(world))?.toISOString() ?? null) : null;
+        return NextResponse.json({ backups, lastBackupAt });
+    } catch (error) {
+        console.error('Error listing backups:', error);
+        return NextResponse.json({ error: 'Failed to list backups' }, { status: 500 });
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        const { worldName = '', announce = false, message }: {
+            worldName?: string;
+            announce?: boolean;  // broadcast in chat when the server is running
+            message?: string;
+        } = await request.json();
+        const world = worldName.trim();
+        if (!world) {
+            return NextResponse.json({ error: 'worldName is required' }, { status: 400 });
+        }
+        if (!validateWorldName(world)) {
+            return NextResponse.json({ error: 'Invalid world name' }, { status: 400 });
+        }
+
+        const { state } = await getServerState(world);
+        if (state === 'stopping') {
+            return NextResponse.json({ error: 'The server is stopping; try again once it has exited' }, { status: 409 });
+        }
+
+        // Running worlds get a hot backup (save-off, save-all flush, archive, save-on)
+        const backup = await createBackup(world, { announce, message });
+        const pruned = await pruneBackups(world);
+        return NextResponse.json({ ok: true, backup, pruned, hot: state === 'running' }, { status: 201 });
+    } catch (error) {
+        console.error('Error creating backup:', error);
+        const msg = error instanceof Error ? error.message : 'Failed to create backup';
+        return NextResponse.json({ error: msg }, { status: 500 });
+    }
+}
+
+export async function DELETE(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const name = searchParams.get('name');
+        if (!name) {
+            return NextResponse.json({ error: 'Missing required query parameter: name' }, { status: 400 });
+        }
+        if (!isArchiveName(name)) {
+            return NextResponse.json({ error: 'Invalid backup name' }, { status: 400 });
+        }
+        if (!(await deleteBackup(name))) {
+            return NextResponse.json({ error: `Backup "${name}" not found` }, { status: 404 });
+        }
+        return NextResponse.json({ ok: true });
+    } catch (error) {
+        console.error('Error deleting backup:', error);
+        return NextResponse.json({ error: 'Failed to delete backup' }, { status: 500 });
+    }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import fs from 'fs';
+import { z } from 'zod';
+import { backupScheduleSchema } from '@/lib/backupSchedule';
+import { lastScheduledRun, nextRunAt, pruneBackups, readBackupSchedule, writeBackupSchedule } from '@/lib/backupScheduler';
+import { readLastBackup } from '@/lib/backups';
+import { validateWorldName, worldDir } from '@/lib/worlds';
+
+// Ensure Node runtime for fs
+export const runtime = 'nodejs';
+
+async function scheduleResponse(world: string) {
+    const schedule = await readBackupSchedule(world);
+    const last = await readLastBackup(world);
+    return {
+        world,
+        schedule,
+        lastRunAt: last?.toISOString() ?? null,
+        nextRunAt: nextRunAt(schedule, last)?.toISOString() ?? null,
+        lastScheduledRun: lastScheduledRun(world),
+    };
+}
+
+export async function GET(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const world = searchParams.get('world');
+        if (!world) {
+            return NextResponse.json({ error: 'Missing required query parameter: world' }, { status: 400 });
+        }
+        if (!validateWorldName(world)) {
+            return NextResponse.json({ error: 'Invalid world name' }, { status: 400 });
+        }
+        return NextResponse.json(await scheduleResponse(world));
+    } catch (error) {
+        console.error('Error reading backup schedule:', error);
+        return NextResponse.json({ error: 'Failed to read backup schedule' }, { status: 500 });
+    }
+}
+
+export async function PUT(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const world = searchParams.get('world');
+        if (!world) {
+            return NextResponse.json({ error: 'Missing required query parameter: world' }, { status: 400 });
+        }
+        if (!validateWorldName(world)) {
+            return NextResponse.json({ error: 'Invalid world name' }, { status: 400 });
+        }
+        if (!fs.existsSync(worldDir(world))) {
+            return NextResponse.json({ error: `World "${world}" not found` }, { status: 404 });
+        }
+
+        const parsed = backupScheduleSchema.safeParse(await request.json());
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid backup schedule', fieldErrors: z.flattenError(parsed.error).fieldErrors },
+                { status: 400 }
+            );
+        }
+
+        await writeBackupSchedule(world, parsed.data);
+        // Apply tightened retention right away rather than on the next tick
+        const pruned = await pruneBackups(world, parsed.data);
+        return NextResponse.json({ ok: true, pruned, ...(await scheduleResponse(world)) });
+    } catch (error) {
+        console.error('Error updating backup schedule:', error);
+        return NextResponse.json({ error: 'Failed to update backup schedule' }, { status: 500 });
+    }
+}
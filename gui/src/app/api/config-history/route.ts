@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import fs from 'fs';
+import {
+    CONFIG_FILES,
+    ConfigFileName,
+    authorFromRequest,
+    diffConfig,
+    isConfigFileName,
+    listConfigVersions,
+    readConfigVersion,
+    rollbackConfigFile,
+} from '@/lib/configHistory';
+import { validateWorldName, worldDir } from '@/lib/worlds';
+
+// Ensure Node runtime for fs
+export const runtime = 'nodejs';
+
+type Target = { world: string; file: ConfigFileName; dir: string };
+
+// ?world=&file= shared by every method; a response when they don't name a world's config file
+function parseTarget(searchParams: URLSearchParams): Target | NextResponse {
+    const world = searchParams.get('world');
+    const file = searchParams.get('file') ?? 'server.properties';
+    if (!world) {
+        return NextResponse.json({ error: 'Missing required query parameter: world' }, { status: 400 });
+    }
+    if (!validateWorldName(world)) {
+        return NextResponse.json({ error: 'Invalid world name' }, { status: 400 });
+    }
+    if (!isConfigFileName(file)) {
+        return NextResponse.json({ error: `file must be one of ${Object.keys(CONFIG_FILES).join(', ')}` }, { status: 400 });
+    }
+    const dir = worldDir(world);
+    if (!fs.existsSync(dir)) {
+        return NextResponse.json({ error: `World "${world}" not found` }, { status: 404 });
+    }
+    return { world, file, dir };
+}
+
+function parseVersion(value: string | null): number | null {
+    return value && /^\d+$/.test(value) ? Number(value) : null;
+}
+
+// Without version: the file's versions, newest first. With version: its contents and what
+// changed against `compare` (default: the version before it)
+export async function GET(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const target = parseTarget(searchParams);
+        if (target instanceof NextResponse) return target;
+        const { world, file, dir } = target;
+
+        if (!searchParams.has('version')) {
+            const versions = await listConfigVersions(dir, file);
+            return NextResponse.json({ world, file, files: Object.keys(CONFIG_FILES), versions });
+        }
+
+        const version = parseVersion(searchParams.get('version'));
+        const snapshot = version === null ? null : await readConfigVersion(dir, file, version);
+        if (!snapshot) {
+            return NextResponse.json({ error: `Version ${searchParams.get('version')} of ${file} not found` }, { status: 404 });
+        }
+
+        let compareTo: number | null = null;
+        if (searchParams.has('compare')) {
+            compareTo = parseVersion(searchParams.get('compare'));
+        } else {
+            const older = (await listConfigVersions(dir, file)).find((v) => v.version < snapshot.version);
+            compareTo = older?.version ?? null;
+        }
+        const base = compareTo === null ? null : await readConfigVersion(dir, file, compareTo);
+        if (compareTo !== null && !base) {
+            return NextResponse.json({ error: `Version ${compareTo} of ${file} not found` }, { status: 404 });
+        }
+
+        const { content, ...meta } = snapshot;
+        return NextResponse.json({
+            world,
+            file,
+            version: meta,
+            content,
+            compareTo,
+            changes: diffConfig(file, base?.content ?? null, content),
+        });
+    } catch (error) {
+        console.error('Error reading config history:', error);
+        return NextResponse.json({ error: 'Failed to read config history' }, { status: 500 });
+    }
+}
+
+// Roll back to ?version=; the server picks it up on its next start (or /whitelist reload)
+export async function POST(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const target = parseTarget(searchParams);
+        if (target instanceof NextResponse) return target;
+        const { world, file, dir } = target;
+
+        const version = parseVersion(searchParams.get('version'));
+        if (version === null || !(await readConfigVersion(dir, file, version))) {
+            return NextResponse.json({ error: `Version ${searchParams.get('version')} of ${file} not found` }, { status: 404 });
+        }
+
+        const created = await rollbackConfigFile(dir, file, version, authorFromRequest(request));
+        return NextResponse.json({ ok: true, world, file, rolledBackTo: version, version: created });
+    } catch (error) {
+        console.error('Error rolling back config file:', error);
+        return NextResponse.json({ error: 'Failed to roll back' }, { status: 500 });
+    }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { detectJavaRuntimes, pickJavaRuntime, requiredJavaMajor } from '@/lib/java';
+import { readPinnedVersion, validateWorldName } from '@/lib/worlds';
+
+// Ensure Node runtime for child_process
+export const runtime = 'nodejs';
+
+// Installed Java runtimes; with ?world=, also the one its pinned version would start with
+export async function GET(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const world = searchParams.get('world');
+        if (world && !validateWorldName(world)) {
+            return NextResponse.json({ error: 'Invalid world name' }, { status: 400 });
+        }
+
+        const runtimes = await detectJavaRuntimes({ refresh: searchParams.get('refresh') === 'true' });
+        if (!world) return NextResponse.json({ runtimes });
+
+        const version = await readPinnedVersion(world);
+        const required = await requiredJavaMajor(version);
+        return NextResponse.json({ runtimes, world, version, required, selected: pickJavaRuntime(runtimes, required) });
+    } catch (error) {
+        console.error('Error detecting Java:', error);
+        return NextResponse.json({ error: 'Failed to detect Java runtimes' }, { status: 500 });
+    }
+}
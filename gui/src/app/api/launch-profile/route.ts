@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import fs from 'fs';
+import { z } from 'zod';
+import { DEFAULT_LAUNCH_PROFILE, jvmArgsFor, launchProfileSchema } from '@/lib/launchProfile';
+import { readLaunchProfile, validateWorldName, worldDir, writeLaunchProfile } from '@/lib/worlds';
+
+// Ensure Node runtime for fs
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const world = searchParams.get('world');
+        if (!world) {
+            return NextResponse.json({ error: 'Missing required query parameter: world' }, { status: 400 });
+        }
+        if (!validateWorldName(world)) {
+            return NextResponse.json({ error: 'Invalid world name' }, { status: 400 });
+        }
+
+        try {
+            const profile = await readLaunchProfile(world);
+            return NextResponse.json({ world, profile, jvmArgs: jvmArgsFor(profile) });
+        } catch (e) {
+            // Hand back the defaults so the card can overwrite a broken file
+            const msg = e instanceof Error ? e.message : 'Invalid launch profile';
+            return NextResponse.json({ world, profile: DEFAULT_LAUNCH_PROFILE, jvmArgs: jvmArgsFor(DEFAULT_LAUNCH_PROFILE), invalid: msg });
+        }
+    } catch (error) {
+        console.error('Error reading launch profile:', error);
+        return NextResponse.json({ error: 'Failed to read launch profile' }, { status: 500 });
+    }
+}
+
+// Keys left out of the body keep their current value (the version pin is edited separately); null clears one
+export async function PUT(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const world = searchParams.get('world');
+        if (!world) {
+            return NextResponse.json({ error: 'Missing required query parameter: world' }, { status: 400 });
+        }
+        if (!validateWorldName(world)) {
+            return NextResponse.json({ error: 'Invalid world name' }, { status: 400 });
+        }
+        if (!fs.existsSync(worldDir(world))) {
+            return NextResponse.json({ error: `World "${world}" not found` }, { status: 404 });
+        }
+
+        const current = await readLaunchProfile(world).catch(() => DEFAULT_LAUNCH_PROFILE);
+        const body = (await request.json()) as Record<string, unknown>;
+        // null clears an optional key such as jar or xms
+        const patch = Object.fromEntries(Object.entries(body).map(([k, v]) => [k, v === null ? undefined : v]));
+        const parsed = launchProfileSchema.safeParse({ ...current, ...patch });
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid launch profile', fieldErrors: z.flattenError(parsed.error).fieldErrors },
+                { status: 400 }
+            );
+        }
+
+        await writeLaunchProfile(world, parsed.data);
+        // Takes effect on the next start
+        return NextResponse.json({ ok: true, world, profile: parsed.data, jvmArgs: jvmArgsFor(parsed.data) });
+    } catch (error) {
+        console.error('Error updating launch profile:', error);
+        return NextResponse.json({ error: 'Failed to update launch profile' }, { status: 500 });
+    }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { RANGES, SAMPLE_INTERVAL_SECONDS, querySamples } from '@/lib/metricsHistory';
+import { validateWorldName } from '@/lib/worlds';
+import { MetricsRange } from '@/lib/types';
+
+// Ensure Node runtime for fs
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const world = searchParams.get('world');
+        const range = (searchParams.get('range') || '1h') as MetricsRange;
+        if (!world) {
+            return NextResponse.json({ error: 'Missing required query parameter: world' }, { status: 400 });
+        }
+        if (!validateWorldName(world)) {
+            return NextResponse.json({ error: 'Invalid world name' }, { status: 400 });
+        }
+        if (!Object.hasOwn(RANGES, range)) {
+            return NextResponse.json({ error: `Invalid range. Use one of: ${Object.keys(RANGES).join(', ')}` }, { status: 400 });
+        }
+
+        return NextResponse.json({
+            world,
+            range,
+            intervalSeconds: SAMPLE_INTERVAL_SECONDS,
+            samples: await querySamples(world, range),
+        });
+    } catch (error) {
+        console.error('Error reading metrics history:', error);
+        return NextResponse.json({ error: 'Failed to read metrics history' }, { status: 500 });
+    }
+}
@@ -0,0 +1,18 @@
+import { collectMetrics, renderMetrics } from '@/lib/metrics';
+
+// Ensure Node runtime for fs, /proc and sockets
+export const runtime = 'nodejs';
+// Always live; never cache a scrape
+export const dynamic = 'force-dynamic';
+
+/** Prometheus scrape target: every world, labelled by world and version. */
+export async function GET() {
+    try {
+        return new Response(renderMetrics(await collectMetrics()), {
+            headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+        });
+    } catch (error) {
+        console.error('Error collecting metrics:', error);
+        return new Response('Failed to collect metrics', { status: 500 });
+    }
+}
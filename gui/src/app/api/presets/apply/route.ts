@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { PresetError, applyPreset, validatePresetName } from '@/lib/presets';
+import { authorFromRequest } from '@/lib/configHistory';
+
+// Ensure Node runtime for fs
+export const runtime = 'nodejs';
+
+type Body = {
+    preset?: string;
+    worlds?: string[];
+    dryRun?: boolean;       // only report the per-key changes
+};
+
+// Changes take effect when each server next starts
+export async function POST(request: Request) {
+    try {
+        const { preset = '', worlds = [], dryRun = false }: Body = await request.json();
+        if (!validatePresetName(preset)) {
+            return NextResponse.json({ error: 'Invalid preset name' }, { status: 400 });
+        }
+        if (!Array.isArray(worlds) || worlds.length === 0 || worlds.some((w) => typeof w !== 'string')) {
+            return NextResponse.json({ error: 'worlds must list at least one world' }, { status: 400 });
+        }
+
+        const results = await applyPreset(preset, [...new Set(worlds)], { dryRun, author: authorFromRequest(request) });
+        return NextResponse.json({ ok: results.every((r) => !r.error), preset, dryRun, results });
+    } catch (error) {
+        if (error instanceof PresetError) return NextResponse.json({ error: error.message }, { status: error.status });
+        console.error('Error applying preset:', error);
+        return NextResponse.json({ error: 'Failed to apply preset' }, { status: 500 });
+    }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import {
+    PresetError,
+    createPreset,
+    deletePreset,
+    listPresets,
+    updatePreset,
+    validatePresetName,
+} from '@/lib/presets';
+
+// Ensure Node runtime for fs
+export const runtime = 'nodejs';
+
+type CreateBody = {
+    name?: string;
+    description?: string;
+    fromWorld?: string;                     // capture a world's server.properties
+    properties?: Record<string, unknown>;   // or give the values; neither captures the defaults
+    keys?: string[];
+};
+
+type UpdateBody = {
+    description?: string;
+    properties?: Record<string, unknown>;   // replaces the preset's whole set of keys
+};
+
+function presetErrorResponse(e: unknown, fallback: string) {
+    if (e instanceof PresetError) {
+        return NextResponse.json(e.fieldErrors ? { error: e.message, fieldErrors: e.fieldErrors } : { error: e.message }, { status: e.status });
+    }
+    console.error(`${fallback}:`, e);
+    return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export async function GET() {
+    try {
+        return NextResponse.json({ presets: await listPresets() });
+    } catch (error) {
+        return presetErrorResponse(error, 'Failed to list presets');
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        const { name = '', description, fromWorld, properties, keys }: CreateBody = await request.json();
+        if (properties !== undefined && !isObject(properties)) {
+            return NextResponse.json({ error: 'properties must be an object' }, { status: 400 });
+        }
+        if (keys !== undefined && (!Array.isArray(keys) || keys.some((k) => typeof k !== 'string'))) {
+            return NextResponse.json({ error: 'keys must be a list of property names' }, { status: 400 });
+        }
+        const preset = await createPreset(name.trim(), { description, fromWorld, properties, keys });
+        return NextResponse.json({ ok: true, preset }, { status: 201 });
+    } catch (error) {
+        return presetErrorResponse(error, 'Failed to create preset');
+    }
+}
+
+export async function PUT(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const name = searchParams.get('name');
+        if (!name || !validatePresetName(name)) {
+            return NextResponse.json({ error: 'Invalid preset name' }, { status: 400 });
+        }
+        const { description, properties }: UpdateBody = await request.json();
+        if (properties !== undefined && !isObject(properties)) {
+            return NextResponse.json({ error: 'properties must be an object' }, { status: 400 });
+        }
+        const preset = await updatePreset(name, { description, properties });
+        return NextResponse.json({ ok: true, preset });
+    } catch (error) {
+        return presetErrorResponse(error, 'Failed to update preset');
+    }
+}
+
+export async function DELETE(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const name = searchParams.get('name');
+        if (!name || !validatePresetName(name)) {
+            return NextResponse.json({ error: 'Invalid preset name' }, { status: 400 });
+        }
+        if (!(await deletePreset(name))) {
+            return NextResponse.json({ error: `Preset "${name}" not found` }, { status: 404 });
+        }
+        return NextResponse.json({ ok: true });
+    } catch (error) {
+        return presetErrorResponse(error, 'Failed to delete preset');
+    }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { ConsoleInputError, writeConsoleCommand } from '@/lib/console';
+import { RconError, getRconClient } from '@/lib/rcon';
+import { isAlive, readPid, validateWorldName } from '@/lib/worlds';
+
+// Ensure Node runtime for fs, sockets and process.kill
+export const runtime = 'nodejs';
+
+type Body = {
+    worldName?: string;
+    command?: string;
+    via?: 'auto' | 'rcon' | 'stdin'; // auto: RCON when enabled for the world, else console stdin
+};
+
+export async function POST(req: Request) {
+    const { worldName = '', command = '', via = 'auto' }: Body = await req.json();
+    const name = worldName.trim();
+    if (!name) {
+        return new NextResponse('worldName is required', { status: 400 });
+    }
+    if (!validateWorldName(name)) {
+        return new NextResponse('Invalid world name', { status: 400 });
+    }
+
+    // The console takes commands without the chat-style leading slash
+    const line = command.trim().replace(/^\//, '');
+    if (!line) {
+        return new NextResponse('command is required', { status: 400 });
+    }
+    if (/[\r\n]/.test(line)) {
+        return new NextResponse('command must be a single line', { status: 400 });
+    }
+
+    // RCON returns the command's output and also reaches servers started outside the GUI
+    if (via !== 'stdin') {
+        const client = await getRconClient(name);
+        if (client) {
+            try {
+                const output = await client.command(line);
+                return NextResponse.json({ ok: true, worldName: name, command: line, via: 'rcon', output });
+            } catch (e) {
+                // Bad password is a config problem; anything else (not up yet, refused) may still work via stdin
+                if (via === 'rcon' || (e instanceof RconError && e.code === 'AUTH')) {
+                    const msg = e instanceof Error ? e.message : 'RCON failed';
+                    return new NextResponse(`RCON error: ${msg}`, { status: 502 });
+                }
+            }
+        } else if (via === 'rcon') {
+            return new NextResponse('RCON is not enabled for this world (enable-rcon and rcon.password).', { status: 409 });
+        }
+    }
+
+    const pid = await readPid(name);
+    if (pid === null || !isAlive(pid)) {
+        return new NextResponse('Server is not running for this world.', { status: 409 });
+    }
+
+    try {
+        await writeConsoleCommand(name, line);
+    } catch (e) {
+        if (e instanceof ConsoleInputError) {
+            return new NextResponse(e.message, { status: 409 });
+        }
+        const msg = e instanceof Error ? e.message : 'write failed';
+        return new NextResponse(`Error: ${msg}`, { status: 500 });
+    }
+
+    // Output shows up in the console stream
+    return NextResponse.json({ ok: true, worldName: name, command: line, via: 'stdin', output: null });
+}
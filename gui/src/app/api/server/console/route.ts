@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { readLinesFrom, readRecentLines } from '@/lib/console';
+import { validateWorldName } from '@/lib/worlds';
+
+// Long-lived stream reading log files: Node runtime, never cached
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const POLL_MS = 500;
+const HEARTBEAT_MS = 15_000;
+
+export async function GET(req: Request) {
+    const { searchParams } = new URL(req.url);
+    const worldName = (searchParams.get('worldName') || '').trim();
+    if (!worldName) {
+        return new NextResponse('worldName is required', { status: 400 });
+    }
+    if (!validateWorldName(worldName)) {
+        return new NextResponse('Invalid world name', { status: 400 });
+    }
+    const replay = Math.min(Math.max(Number.parseInt(searchParams.get('lines') || '200', 10) || 0, 0), 2000);
+
+    const encoder = new TextEncoder();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (chunk: string) => {
+                if (!closed) controller.enqueue(encoder.encode(chunk));
+            };
+            const sendLines = (lines: string[]) => {
+                // One SSE event per line; JSON keeps stray control chars intact
+                for (const line of lines) send(`data: ${JSON.stringify(line)}\n\n`);
+            };
+            const close = () => {
+                if (closed) return;
+                closed = true;
+                if (timer) clearTimeout(timer);
+                try { controller.close(); } catch { /* already closed */ }
+            };
+            req.signal.addEventListener('abort', close);
+
+            const recent = await readRecentLines(worldName, replay);
+            let offset = recent.offset;
+            sendLines(recent.lines);
+            send('event: ready\ndata: {}\n\n');
+
+            let lastBeat = Date.now();
+            const poll = async () => {
+                if (closed) return;
+                try {
+                    const next = await readLinesFrom(worldName, offset);
+                    if (next.rotated) send('event: rotated\ndata: {}\n\n');
+                    offset = next.offset;
+                    sendLines(next.lines);
+                    if (Date.now() - lastBeat > HEARTBEAT_MS) {
+                        send(': keep-alive\n\n');
+                        lastBeat = Date.now();
+                    }
+                } catch (e) {
+                    console.error('Console stream error:', e);
+                }
+                if (!closed) timer = setTimeout(poll, POLL_MS);
+            };
+            timer = setTimeout(poll, POLL_MS);
+        },
+        cancel() {
+            closed = true;
+            if (timer) clearTimeout(timer);
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+        },
+    });
+}
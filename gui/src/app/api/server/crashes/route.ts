@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getCrashHistory } from '@/lib/supervisor';
+import { readLaunchProfile, validateWorldName } from '@/lib/worlds';
+import { DEFAULT_LAUNCH_PROFILE } from '@/lib/launchProfile';
+
+// Ensure Node runtime for fs
+export const runtime = 'nodejs';
+
+/** Exit history of a world's server, the pending crash restart (if any) and the restart policy. */
+export async function GET(req: Request) {
+    const { searchParams } = new URL(req.url);
+    const worldName = (searchParams.get('worldName') || '').trim();
+    if (!worldName) {
+        return new NextResponse('worldName is required', { status: 400 });
+    }
+    if (!validateWorldName(worldName)) {
+        return new NextResponse('Invalid world name', { status: 400 });
+    }
+
+    const policy = await readLaunchProfile(worldName).then((p) => p.restart, () => DEFAULT_LAUNCH_PROFILE.restart);
+    return NextResponse.json({ ...(await getCrashHistory(worldName)), policy });
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import fs from 'fs';
+import path from 'path';
+import { findQueryPortClash, queryWorld, readQueryConfig } from '@/lib/query';
+import { getServerState } from '@/lib/serverProcess';
+import { patchWorldProperties, validateWorldName, worldDir } from '@/lib/worlds';
+import { authorFromRequest } from '@/lib/configHistory';
+
+// Ensure Node runtime for UDP sockets and fs
+export const runtime = 'nodejs';
+
+export async function GET(req: Request) {
+    const { searchParams } = new URL(req.url);
+    const worldName = (searchParams.get('worldName') || '').trim();
+    if (!worldName) {
+        return new NextResponse('worldName is required', { status: 400 });
+    }
+    if (!validateWorldName(worldName)) {
+        return new NextResponse('Invalid world name', { status: 400 });
+    }
+
+    const { enabled, port } = await readQueryConfig(worldName);
+    const { state } = await getServerState(worldName);
+    if (!enabled || state !== 'running') {
+        return NextResponse.json({ enabled, port, running: state === 'running', query: null, error: null });
+    }
+
+    try {
+        const query = await queryWorld(worldName);
+        return NextResponse.json({ enabled, port, running: true, query, error: null });
+    } catch (e) {
+        // Query only starts once the world has loaded, and a world enabled while running needs a restart
+        const msg = e instanceof Error ? e.message : 'query failed';
+        return NextResponse.json({ enabled, port, running: true, query: null, error: msg });
+    }
+}
+
+type Body = {
+    worldName?: string;
+    enabled?: boolean;
+    port?: number; // query.port; defaults to the world's current one
+};
+
+export async function POST(req: Request) {
+    const { worldName = '', enabled = true, port }: Body = await req.json();
+    const name = worldName.trim();
+    if (!name) {
+        return new NextResponse('worldName is required', { status: 400 });
+    }
+    if (!validateWorldName(name)) {
+        return new NextResponse('Invalid world name', { status: 400 });
+    }
+    if (!fs.existsSync(path.join(worldDir(name), 'server.properties'))) {
+        return new NextResponse(`server.properties not found for world "${name}"`, { status: 404 });
+    }
+    if (port !== undefined && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+        return new NextResponse('Invalid port number. Must be between 1 and 65535.', { status: 400 });
+    }
+
+    const queryPort = port ?? (await readQueryConfig(name)).port;
+    if (enabled) {
+        const clash = await findQueryPortClash(name, queryPort);
+        if (clash) {
+            return new NextResponse(`Query port ${queryPort} is already used by running world "${clash}".`, { status: 409 });
+        }
+    }
+
+    await patchWorldProperties(
+        name,
+        port === undefined ? { 'enable-query': enabled } : { 'enable-query': enabled, 'query.port': port },
+        { author: authorFromRequest(req), note: enabled ? 'Enabled query' : 'Disabled query' }
+    );
+    const { state } = await getServerState(name);
+    // The server only reads server.properties at launch
+    return NextResponse.json({ ok: true, worldName: name, enabled, port: queryPort, restartRequired: state !== 'stopped' });
+}
@@ -1,81 +1,76 @@
 import { NextResponse } from 'next/server';
-import fs from 'fs/promises';
-import path from 'path';
+import { DEFAULT_STOP_TIMEOUT_MS, stopServer } from '@/lib/serverProcess';
+import { backupOnStopEnabled, createBackup } from '@/lib/backups';
+import { BackupInfo } from '@/lib/types';
+import { validateWorldName } from '@/lib/worlds';
 
 // Ensure Node runtime for process.kill
 export const runtime = 'nodejs';
 
-// Match /api/server/start and /api/server/status
-const GUI_DIR = process.cwd();
-const ROOT_DIR = path.resolve(GUI_DIR, '..');      // repo root
-const PID_DIR  = path.join(ROOT_DIR, '.mc-pids');
-
-function pidFile(worldName: string) {
-    return path.join(PID_DIR, `${worldName}.pid`);
-}
-
-function isAlive(pid: number): boolean {
-    try {
-        if (!Number.isInteger(pid) || pid <= 0) return false;
-        process.kill(pid, 0);
-        return true;
-    } catch {
-        return false;
-    }
-}
+type Body = {
+    worldName?: string;
+    timeoutMs?: number; // grace period before SIGKILL
+};
 
 export async function POST(req: Request) {
-    const { worldName = '' } = (await req.json()) as { worldName?: string };
+    const { worldName = '', timeoutMs = DEFAULT_STOP_TIMEOUT_MS }: Body = await req.json();
     const name = worldName.trim();
     if (!name) {
         return new NextResponse('worldName is required', { status: 400 });
     }
-
-    const pfile = pidFile(name);
-
-    // If there's no pid file, treat as already stopped (idempotent)
-    let pidText: string | null = null;
-    try {
-        pidText = await fs.readFile(pfile, 'utf8');
-    } catch {
-        return NextResponse.json({
-            ok: true,
-            alreadyStopped: true,
-            message: 'No running server found (no PID file).',
-        });
+    if (!validateWorldName(name)) {
+        return new NextResponse('Invalid world name', { status: 400 });
+    }
+    if (!Number.isInteger(timeoutMs) || timeoutMs < 0 || timeoutMs > 10 * 60_000) {
+        return new NextResponse('Invalid timeoutMs. Must be between 0 and 600000.', { status: 400 });
     }
 
-    const pid = Number.parseInt(pidText, 10);
+    const result = await stopServer(name, timeoutMs);
 
-    // If PID isn’t alive, clean up the pidfile and return alreadyStopped
-    if (!isAlive(pid)) {
-        try { await fs.unlink(pfile); } catch { /* ignore */ }
+    // Idempotent: no live process counts as stopped
+    if (result.alreadyStopped) {
         return NextResponse.json({
             ok: true,
             alreadyStopped: true,
-            message: 'No running server found (stale PID cleaned).',
+            message: 'No running server found.',
         });
     }
 
-    // Try to terminate gracefully; fall back to SIGKILL if needed
-    try {
-        process.kill(pid, 'SIGTERM');
-    } catch (e) {
-        // If TERM failed because it’s gone, treat as stopped
-        try { await fs.unlink(pfile); } catch { /* ignore */ }
-        return NextResponse.json({
-            ok: true,
-            alreadyStopped: true,
-            message: 'Process already exited.',
-        });
+    // SIGKILL didn't take; the pid record stays and the stopping marker goes, so it shows as running and can be stopped again
+    if (!result.exited) {
+        return NextResponse.json(
+            {
+                ok: false,
+                stopped: false,
+                pid: result.pid,
+                path: result.path,
+                via: result.via,
+                waitedMs: result.waitedMs,
+                error: `Process ${result.pid} is still running after SIGKILL`,
+            },
+            { status: 504 }
+        );
     }
 
-    // Best-effort pidfile cleanup; the detached process will exit
-    try { await fs.unlink(pfile); } catch { /* ignore */ }
+    // Same as run.sh's do_backup_on_stop: only the BACKUP_ON_STOP toggle, no interval
+    let backup: BackupInfo | null = null;
+    let backupError: string | null = null;
+    if (await backupOnStopEnabled()) {
+        try {
+            backup = await createBackup(name);
+        } catch (e) {
+            backupError = e instanceof Error ? e.message : 'backup failed';
+        }
+    }
 
     return NextResponse.json({
         ok: true,
         stopped: true,
-        pid,
+        pid: result.pid,
+        path: result.path,   // 'graceful' | 'sigterm' | 'sigkill'
+        via: result.via,     // how save-all/stop was delivered, null if it couldn't be
+        waitedMs: result.waitedMs,
+        backup,
+        backupError,
     });
 }
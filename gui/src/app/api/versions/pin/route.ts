@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import fs from 'fs';
+import { fetchManifest, isVersionInstalled, pinVersion, validateVersionId } from '@/lib/versions';
+import { readWorldInfo, validateWorldName, worldDir } from '@/lib/worlds';
+
+// Ensure Node runtime for fs
+export const runtime = 'nodejs';
+
+// Pin a world to a version (null unpins: start falls back to the newest jar in the repo root)
+export async function PUT(request: Request) {
+    try {
+        const { worldName = '', version = null }: { worldName?: string; version?: string | null } = await request.json();
+        const world = worldName.trim();
+        if (!world) {
+            return NextResponse.json({ error: 'worldName is required' }, { status: 400 });
+        }
+        if (!validateWorldName(world)) {
+            return NextResponse.json({ error: 'Invalid world name' }, { status: 400 });
+        }
+        if (!fs.existsSync(worldDir(world))) {
+            return NextResponse.json({ error: `World "${world}" not found` }, { status: 404 });
+        }
+
+        const id = version?.trim() || null;
+        if (id) {
+            if (!validateVersionId(id)) {
+                return NextResponse.json({ error: 'Invalid version id' }, { status: 400 });
+            }
+            // Cached jars can be pinned offline; anything else must exist upstream
+            if (!(await isVersionInstalled(id)) && !(await fetchManifest()).versions.some((v) => v.id === id)) {
+                return NextResponse.json({ error: `Unknown version "${id}"` }, { status: 404 });
+            }
+        }
+
+        await pinVersion(world, id);
+        // Takes effect on the next start
+        return NextResponse.json({ ok: true, world: await readWorldInfo(world) });
+    } catch (error) {
+        console.error('Error pinning version:', error);
+        const msg = error instanceof Error ? error.message : 'Failed to pin version';
+        return NextResponse.json({ error: msg }, { status: 500 });
+    }
+}
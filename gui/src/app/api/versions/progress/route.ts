@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getDownloadProgress } from '@/lib/versions';
+
+// Ensure Node runtime so the download state is shared with the other routes
+export const runtime = 'nodejs';
+
+// Polled by the UI while a jar downloads (from the version manager or a first start)
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const version = searchParams.get('version')?.trim() || undefined;
+    return NextResponse.json({ downloads: getDownloadProgress(version) });
+}
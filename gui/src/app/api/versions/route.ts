@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { installVersion, listVersions, validateVersionId } from '@/lib/versions';
+
+// Ensure Node runtime for fs
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const snapshots = searchParams.get('snapshots') === 'true';
+        return NextResponse.json(await listVersions({ snapshots }));
+    } catch (error) {
+        console.error('Error listing versions:', error);
+        const msg = error instanceof Error ? error.message : 'Failed to list versions';
+        return NextResponse.json({ error: msg }, { status: 502 });
+    }
+}
+
+// Download a version's server jar into the versions/ cache
+export async function POST(request: Request) {
+    try {
+        const { version = '' }: { version?: string } = await request.json();
+        const id = version.trim();
+        if (!id) {
+            return NextResponse.json({ error: 'version is required' }, { status: 400 });
+        }
+        if (!validateVersionId(id)) {
+            return NextResponse.json({ error: 'Invalid version id' }, { status: 400 });
+        }
+
+        const jarPath = await installVersion(id);
+        return NextResponse.json({ ok: true, version: id, jarPath }, { status: 201 });
+    } catch (error) {
+        console.error('Error downloading version:', error);
+        const msg = error instanceof Error ? error.message : 'Failed to download version';
+        return NextResponse.json({ error: msg }, { status: 502 });
+    }
+}
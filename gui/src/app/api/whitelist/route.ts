@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import fs from 'fs';
 import fsp from 'fs/promises';
 import path from 'path';
+import { authorFromRequest, writeConfigFile } from '@/lib/configHistory';
 
 type WhitelistEntry = { name: string; uuid?: string };
 
@@ -56,7 +57,9 @@ export async function PUT(request: Request) {
             .map((e) => ({ name: e.name.trim(), ...(e.uuid ? { uuid: e.uuid.trim() } : {}) }));
 
         const { whitelistPath } = getPaths(world);
-        await fsp.writeFile(whitelistPath, JSON.stringify(sanitized, null, 2), 'utf8');
+        await writeConfigFile(path.dirname(whitelistPath), 'whitelist.json', JSON.stringify(sanitized, null, 2), {
+            author: authorFromRequest(request),
+        });
 
         return NextResponse.json({ ok: true });
     } catch (e) {
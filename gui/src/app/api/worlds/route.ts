@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import fs from 'fs';
+import { z } from 'zod';
+import { createWorld, listWorlds, validateWorldName, worldDir } from '@/lib/worlds';
+import { serverPropsSchema } from '@/lib/serverProps';
+
+// Ensure Node runtime for fs and process.kill
+export const runtime = 'nodejs';
+
+// Settings that only take effect before the world is generated
+const createWorldSchema = serverPropsSchema
+    .pick({
+        'level-seed': true,
+        'level-type': true,
+        gamemode: true,
+        difficulty: true,
+        hardcore: true,
+    })
+    .partial()
+    .extend({
+        name: z.string().trim().min(1, 'name is required').refine(validateWorldName, 'Invalid world name'),
+    })
+    .strip();
+
+export async function GET() {
+    try {
+        const worlds = await listWorlds();
+        return NextResponse.json({ worlds });
+    } catch (error) {
+        console.error('Error listing worlds:', error);
+        return NextResponse.json({ error: 'Failed to list worlds' }, { status: 500 });
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        const parsed = createWorldSchema.safeParse(await request.json());
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid world settings', fieldErrors: z.flattenError(parsed.error).fieldErrors },
+                { status: 400 }
+            );
+        }
+
+        const { name, ...settings } = parsed.data;
+        if (fs.existsSync(worldDir(name))) {
+            return NextResponse.json({ error: `World "${name}" already exists` }, { status: 409 });
+        }
+
+        // Drop unset keys so the template defaults stay in place
+        const overrides = Object.fromEntries(
+            Object.entries(settings).filter(([, v]) => v !== undefined)
+        );
+        const world = await createWorld(name, overrides);
+        return NextResponse.json({ ok: true, world }, { status: 201 });
+    } catch (error) {
+        console.error('Error creating world:', error);
+        return NextResponse.json({ error: 'Failed to create world' }, { status: 500 });
+    }
+}
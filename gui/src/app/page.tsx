@@ -1,9 +1,23 @@
 'use client'
 
 import { useEffect, useState, useCallback } from 'react';
-import { World, ServerProperties } from '@/lib/types';
+import { WorldInfo, ServerProperties, ServerState, ServerStatus } from '@/lib/types';
 import WorldsSelector from '@/components/worldsSelector';
 import ServerPropertiesCard from '@/components/ServerPropertiesCard';
+import CreateWorldCard from '@/components/CreateWorldCard';
+import ConsolePanel from '@/components/ConsolePanel';
+import BackupsCard from '@/components/BackupsCard';
+import ServerStatusPanel from '@/components/ServerStatusPanel';
+import ResourceGauges from '@/components/ResourceGauges';
+import MetricsHistoryCard from '@/components/MetricsHistoryCard';
+import QueryPanel from '@/components/QueryPanel';
+import CrashHistoryPanel from '@/components/CrashHistoryPanel';
+import VersionsCard from '@/components/VersionsCard';
+import LaunchProfileCard from '@/components/LaunchProfileCard';
+import PresetsCard from '@/components/PresetsCard';
+import ConfigHistoryCard from '@/components/ConfigHistoryCard';
+import DownloadProgressNote from '@/components/DownloadProgressNote';
+import { formatBytes, formatRelativeTime } from '@/lib/format';
 import { Button } from '@/components/ui/button';
 
 type StartResponse = {
@@ -18,24 +32,46 @@ type StartResponse = {
     portAutoPicked?: boolean;
 };
 
+type StopResponse = {
+    ok: boolean;
+    alreadyStopped?: boolean;
+    stopped?: boolean;
+    pid?: number;
+    path?: 'graceful' | 'sigterm' | 'sigkill';
+    via?: 'rcon' | 'stdin' | null;
+    waitedMs?: number;
+    error?: string;
+};
+
 export default function Home() {
-    const [selectedWorld, setSelectedWorld] = useState<World | null>(null);
+    const [selectedWorld, setSelectedWorld] = useState<WorldInfo | null>(null);
     const [currentServerProperties, setCurrentServerProperties] = useState<ServerProperties | null>(null);
     const [isRunning, setIsRunning] = useState(false);
+    const [serverState, setServerState] = useState<ServerState>('stopped');
+    const [serverStatus, setServerStatus] = useState<ServerStatus | null>(null);
     const [statusLoading, setStatusLoading] = useState(false);
     const [busy, setBusy] = useState(false);
+    const [starting, setStarting] = useState(false);
     const [status, setStatus] = useState<string | null>(null);
+    const [creatingWorld, setCreatingWorld] = useState(false);
+    const [worldsRefreshToken, setWorldsRefreshToken] = useState(0);
+    const [propertiesRefreshToken, setPropertiesRefreshToken] = useState(0);
     const [portInfo, setPortInfo] = useState<{ requestedPort: number; port: number; autoPicked: boolean } | null>(null);
 
-    const fetchServerStatus = useCallback(async (worldName: string) => {
-        setStatusLoading(true);
+    // Background refreshes leave the start/stop button alone
+    const fetchServerStatus = useCallback(async (worldName: string, background = false) => {
+        if (!background) setStatusLoading(true);
         try {
             const res = await fetch(`/api/server/status?worldName=${encodeURIComponent(worldName)}`, { cache: 'no-store' });
             if (!res.ok) throw new Error(await res.text());
-            const data: { running?: boolean } = await res.json();
-            setIsRunning(Boolean(data.running));
+            const data: ServerStatus = await res.json();
+            setIsRunning(data.running);
+            setServerState(data.state);
+            setServerStatus(data);
         } catch {
             setIsRunning(false);
+            setServerState('stopped');
+            setServerStatus(null);
         } finally {
             setStatusLoading(false);
         }
@@ -46,22 +82,49 @@ export default function Home() {
             fetchServerStatus(selectedWorld.name);
         } else {
             setIsRunning(false);
+            setServerState('stopped');
+            setServerStatus(null);
         }
     }, [selectedWorld, fetchServerStatus]);
 
+    // Keep MOTD, player counts and resource gauges fresh while the server is up
+    useEffect(() => {
+        if (!selectedWorld || serverState !== 'running') return;
+        const t = setInterval(() => fetchServerStatus(selectedWorld.name, true), 10_000);
+        return () => clearInterval(t);
+    }, [selectedWorld, serverState, fetchServerStatus]);
+
+    // A stop may be in progress from another tab or before a reload; follow it until it settles
+    useEffect(() => {
+        if (!selectedWorld || serverState !== 'stopping') return;
+        const t = setInterval(() => fetchServerStatus(selectedWorld.name, true), 2000);
+        return () => clearInterval(t);
+    }, [selectedWorld, serverState, fetchServerStatus]);
+
+    // The supervisor restarted (or lost) the server behind our back
+    const onExitsChanged = useCallback(() => {
+        if (selectedWorld) fetchServerStatus(selectedWorld.name, true);
+    }, [selectedWorld, fetchServerStatus]);
+
+    const onWorldCreated = (world: WorldInfo) => {
+        setCreatingWorld(false);
+        setWorldsRefreshToken((n) => n + 1);
+        setSelectedWorld(world);
+        setStatus(`Created ${world.name}`);
+    };
+
     const startServer = async () => {
         if (!selectedWorld) return;
         setBusy(true);
+        setStarting(true);
         setStatus(null);
         setPortInfo(null);
         try {
             const res = await fetch('/api/server/start', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    worldName: selectedWorld.name,
-                    memory: currentServerProperties?.memory || '4G',
-                }),
+                // Memory, JVM flags, jar and port come from the world's launch profile
+                body: JSON.stringify({ worldName: selectedWorld.name }),
             });
 
             if (!res.ok) {
@@ -90,6 +153,7 @@ export default function Home() {
             setStatus(`Error: ${e instanceof Error ? e.message : 'failed to start'}`);
         } finally {
             setBusy(false);
+            setStarting(false);
             if (selectedWorld) fetchServerStatus(selectedWorld.name);
         }
     };
@@ -98,16 +162,34 @@ export default function Home() {
         if (!selectedWorld) return;
         setBusy(true);
         setStatus(null);
+        setServerState('stopping');
         try {
             const res = await fetch('/api/server/stop', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ worldName: selectedWorld.name }),
             });
-            if (!res.ok) throw new Error(await res.text());
+            if (!res.ok) {
+                // Bad requests are plain text; a process that outlived SIGKILL is a StopResponse
+                const text = await res.text();
+                let message = text;
+                try {
+                    message = (JSON.parse(text) as StopResponse).error ?? text;
+                } catch { /* plain text */ }
+                throw new Error(message);
+            }
+            const data: StopResponse = await res.json();
             setIsRunning(false);
             setPortInfo(null);
-            setStatus(`Stopped ${selectedWorld.name}`);
+            if (data.alreadyStopped) {
+                setStatus(`${selectedWorld.name} was not running`);
+            } else if (data.path === 'sigkill') {
+                setStatus(`Force-killed ${selectedWorld.name} after it did not exit in time`);
+            } else if (data.path === 'sigterm') {
+                setStatus(`Stopped ${selectedWorld.name} (SIGTERM, no console attached)`);
+            } else {
+                setStatus(`Saved and stopped ${selectedWorld.name} via ${data.via}`);
+            }
         } catch (e) {
             setStatus(`Error: ${e instanceof Error ? e.message : 'failed to stop'}`);
         } finally {
@@ -119,24 +201,51 @@ export default function Home() {
     return (
         <div className="font-sans grid grid-rows-[auto_1fr] items-start justify-items-stretch min-h-screen p-8 gap-8 sm:p-12">
             <div className="max-w-3xl w-full mx-auto">
-                <WorldsSelector placeholder="Select a world..." onChange={setSelectedWorld} />
+                <div className="flex items-start gap-2">
+                    <WorldsSelector
+                        placeholder="Select a world..."
+                        value={selectedWorld}
+                        onChange={setSelectedWorld}
+                        refreshToken={worldsRefreshToken}
+                    />
+                    <Button variant="outline" onClick={() => setCreatingWorld((v) => !v)}>
+                        New world
+                    </Button>
+                </div>
                 {selectedWorld ? (
                     <p className="mt-2 text-sm text-neutral-500">
                         Selected: <span className="font-medium">{selectedWorld.name}</span>
+                        {' · '}{selectedWorld.version ? `version ${selectedWorld.version}` : 'no pinned version'}
+                        {' · '}{formatBytes(selectedWorld.sizeBytes)}
+                        {' · '}last played {formatRelativeTime(selectedWorld.lastPlayed)}
+                        {!selectedWorld.hasLevelDat && ' · not generated yet'}
+                        {!selectedWorld.hasServerProperties && ' · missing server.properties'}
                     </p>
                 ) : null}
             </div>
 
+            {creatingWorld && (
+                <div className="max-w-3xl w-full mx-auto">
+                    <CreateWorldCard onCreated={onWorldCreated} onCancel={() => setCreatingWorld(false)} />
+                </div>
+            )}
+
             {selectedWorld && (
                 <div className="max-w-3xl w-full mx-auto space-y-4">
                     <ServerPropertiesCard
                         worldName={selectedWorld.name}
                         currentServerProperties={currentServerProperties}
                         setCurrentServerProperties={setCurrentServerProperties}
+                        refreshToken={propertiesRefreshToken}
                     />
 
                     <div className="flex items-center gap-3">
-                        {statusLoading ? (
+                        {serverState === 'stopping' ? (
+                            // Stopping from elsewhere (another tab, a stop that never finished): allow another try
+                            <Button variant="destructive" onClick={stopServer} disabled={busy}>
+                                {busy ? 'Stopping…' : 'Stopping… Stop Again'}
+                            </Button>
+                        ) : statusLoading ? (
                             <Button disabled>Checking status…</Button>
                         ) : isRunning ? (
                             <Button variant="destructive" onClick={stopServer} disabled={busy}>
@@ -150,12 +259,55 @@ export default function Home() {
                         {status && <span className="text-sm text-neutral-600">{status}</span>}
                     </div>
 
+                    {/* The first start of a version downloads its jar */}
+                    <DownloadProgressNote active={starting} />
+
+                    {serverStatus?.running && <ServerStatusPanel status={serverStatus} />}
+
+                    {serverStatus?.resources && <ResourceGauges resources={serverStatus.resources} />}
+
+                    <CrashHistoryPanel worldName={selectedWorld.name} running={isRunning} onChange={onExitsChanged} />
+
+                    <QueryPanel worldName={selectedWorld.name} running={serverState === 'running'} />
+
                     {portInfo && (
                         <p className="text-xs text-neutral-500">
                             Requested: {portInfo.requestedPort} · Actual: {portInfo.port}
                             {portInfo.autoPicked ? ' (auto-picked)' : ''}
                         </p>
                     )}
+
+                    <ConsolePanel worldName={selectedWorld.name} running={isRunning} />
+
+                    <MetricsHistoryCard worldName={selectedWorld.name} />
+
+                    <VersionsCard
+                        world={selectedWorld}
+                        onPinned={(world) => {
+                            setWorldsRefreshToken((n) => n + 1);
+                            setSelectedWorld(world);
+                        }}
+                    />
+
+                    <LaunchProfileCard worldName={selectedWorld.name} running={isRunning} />
+
+                    <PresetsCard
+                        worldName={selectedWorld.name}
+                        onApplied={(worlds) => {
+                            if (worlds.includes(selectedWorld.name)) setPropertiesRefreshToken((n) => n + 1);
+                        }}
+                    />
+
+                    <ConfigHistoryCard worldName={selectedWorld.name} onRolledBack={() => setPropertiesRefreshToken((n) => n + 1)} />
+
+                    <BackupsCard
+                        worldName={selectedWorld.name}
+                        running={isRunning}
+                        onRestored={(world) => {
+                            setWorldsRefreshToken((n) => n + 1);
+                            setSelectedWorld(world);
+                        }}
+                    />
                 </div>
             )}
         </div>
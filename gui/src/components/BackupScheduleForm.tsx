@@ -0,0 +1,180 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { BackupSchedule, DEFAULT_BACKUP_SCHEDULE, parseIntervalToSeconds } from '@/lib/backupSchedule';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+type Props = {
+    worldName: string;
+    onPruned?: () => void; // saving may delete archives that no rule keeps any more
+};
+
+type ScheduleResponse = {
+    schedule?: BackupSchedule;
+    lastRunAt?: string | null;
+    nextRunAt?: string | null;
+    lastScheduledRun?: { at: string; ok: boolean; message: string } | null;
+    pruned?: string[];
+    error?: string;
+    fieldErrors?: Record<string, string[] | undefined>;
+};
+
+const toCount = (v: string) => Math.max(0, Math.trunc(Number(v) || 0));
+const formatTime = (iso: string | null | undefined) => (iso ? new Date(iso).toLocaleString() : '—');
+
+export default function BackupScheduleForm({ worldName, onPruned }: Props) {
+    const [schedule, setSchedule] = useState<BackupSchedule>(DEFAULT_BACKUP_SCHEDULE);
+    const [saved, setSaved] = useState<ScheduleResponse | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchSchedule = useCallback(async () => {
+        setError(null);
+        try {
+            const res = await fetch(`/api/backups/schedule?world=${encodeURIComponent(worldName)}`, { cache: 'no-store' });
+            const data: ScheduleResponse = await res.json();
+            if (!res.ok || !data.schedule) throw new Error(data.error || `HTTP ${res.status}`);
+            setSaved(data);
+            setSchedule(data.schedule);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load backup schedule');
+        }
+    }, [worldName]);
+
+    useEffect(() => {
+        fetchSchedule();
+    }, [fetchSchedule]);
+
+    const intervalValid = (parseIntervalToSeconds(schedule.interval) ?? 0) >= 60;
+    const hasChanges = saved?.schedule !== undefined && JSON.stringify(saved.schedule) !== JSON.stringify(schedule);
+
+    const save = async () => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/backups/schedule?world=${encodeURIComponent(worldName)}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(schedule),
+            });
+            const data: ScheduleResponse = await res.json();
+            if (!res.ok || !data.schedule) {
+                const details = Object.entries(data.fieldErrors ?? {}).map(([k, v]) => `${k}: ${v?.join(', ')}`);
+                throw new Error([data.error || `HTTP ${res.status}`, ...details].join(' · '));
+            }
+            setSaved(data);
+            setSchedule(data.schedule);
+            if (data.pruned?.length) onPruned?.();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to save backup schedule');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const setRetention = (key: keyof BackupSchedule['retention'], value: string) =>
+        setSchedule((s) => ({ ...s, retention: { ...s.retention, [key]: toCount(value) } }));
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <h3 className="text-base font-semibold">Schedule &amp; Retention</h3>
+                <p className="text-sm text-neutral-500">
+                    Last backup: {formatTime(saved?.lastRunAt)} · Next: {schedule.enabled ? formatTime(saved?.nextRunAt) : 'not scheduled'}
+                </p>
+                {saved?.lastScheduledRun && (
+                    <p className={`text-xs ${saved.lastScheduledRun.ok ? 'text-neutral-500' : 'text-red-600'}`}>
+                        Last scheduled run {formatTime(saved.lastScheduledRun.at)}: {saved.lastScheduledRun.message}
+                    </p>
+                )}
+            </div>
+
+            {error && (
+                <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+                    {error}
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                    <Label htmlFor="schedEnabled">Scheduled backups</Label>
+                    <div className="flex items-center gap-3">
+                        <Switch
+                            id="schedEnabled"
+                            checked={schedule.enabled}
+                            onCheckedChange={(enabled) => setSchedule((s) => ({ ...s, enabled }))}
+                        />
+                        <span className="text-sm text-neutral-700">Back up automatically</span>
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="schedInterval">Interval</Label>
+                    <Input
+                        id="schedInterval"
+                        placeholder="6h"
+                        value={schedule.interval}
+                        aria-invalid={!intervalValid}
+                        onChange={(e) => setSchedule((s) => ({ ...s, interval: e.target.value }))}
+                    />
+                    <p className="text-xs text-neutral-500">Number with s, m, h, d or w (same as BACKUP_INTERVAL).</p>
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="schedOnlyRunning">Only while running</Label>
+                    <div className="flex items-center gap-3">
+                        <Switch
+                            id="schedOnlyRunning"
+                            checked={schedule.onlyWhileRunning}
+                            onCheckedChange={(onlyWhileRunning) => setSchedule((s) => ({ ...s, onlyWhileRunning }))}
+                        />
+                        <span className="text-sm text-neutral-700">Skip while the server is stopped</span>
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="schedAnnounce">Announce</Label>
+                    <div className="flex items-center gap-3">
+                        <Switch
+                            id="schedAnnounce"
+                            checked={schedule.announce}
+                            onCheckedChange={(announce) => setSchedule((s) => ({ ...s, announce }))}
+                        />
+                        <span className="text-sm text-neutral-700">Tell players in chat during hot backups</span>
+                    </div>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="space-y-2">
+                    <Label htmlFor="keepLast">Keep last</Label>
+                    <Input id="keepLast" type="number" min={0} value={schedule.retention.keepLast}
+                           onChange={(e) => setRetention('keepLast', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="keepDaily">Daily for (days)</Label>
+                    <Input id="keepDaily" type="number" min={0} value={schedule.retention.keepDaily}
+                           onChange={(e) => setRetention('keepDaily', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="keepWeekly">Weekly for (weeks)</Label>
+                    <Input id="keepWeekly" type="number" min={0} value={schedule.retention.keepWeekly}
+                           onChange={(e) => setRetention('keepWeekly', e.target.value)} />
+                </div>
+            </div>
+            <p className="text-xs text-neutral-500">
+                An archive is kept if any rule keeps it. All zero keeps every archive. Rules apply to manual backups too, and only while the schedule is enabled.
+            </p>
+
+            <div className="flex items-center gap-3">
+                <Button onClick={save} disabled={!hasChanges || !intervalValid || isSaving}>
+                    {isSaving ? 'Saving…' : 'Save schedule'}
+                </Button>
+                {hasChanges && <span className="text-xs text-neutral-500">Unsaved changes</span>}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { BackupInfo, WorldInfo } from '@/lib/types';
+import { formatBytes, formatRelativeTime } from '@/lib/format';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import BackupScheduleForm from '@/components/BackupScheduleForm';
+
+type Props = {
+    worldName: string;
+    running: boolean;
+    onRestored?: (world: WorldInfo) => void;
+};
+
+export default function BackupsCard({ worldName, running, onRestored }: Props) {
+    const [backups, setBackups] = useState<BackupInfo[]>([]);
+    const [lastBackupAt, setLastBackupAt] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [busy, setBusy] = useState<string | null>(null); // archive name or 'create'
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [restoreTarget, setRestoreTarget] = useState('');
+    const [announce, setAnnounce] = useState(false);
+    const [announceMessage, setAnnounceMessage] = useState('');
+
+    const fetchBackups = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/backups?world=${encodeURIComponent(worldName)}`, { cache: 'no-store' });
+            const data: { backups?: BackupInfo[]; lastBackupAt?: string | null; error?: string } = await res.json();
+            if (!res.ok || !data.backups) throw new Error(data.error || `HTTP ${res.status}`);
+            setBackups(data.backups);
+            setLastBackupAt(data.lastBackupAt ?? null);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load backups');
+            setBackups([]);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [worldName]);
+
+    useEffect(() => {
+        setMessage(null);
+        setRestoreTarget('');
+        fetchBackups();
+    }, [fetchBackups]);
+
+    const createBackup = async () => {
+        setBusy('create');
+        setError(null);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/backups', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ worldName, announce, message: announceMessage.trim() || undefined }),
+            });
+            const data: { backup?: BackupInfo; hot?: boolean; error?: string } = await res.json();
+            if (!res.ok || !data.backup) throw new Error(data.error || `HTTP ${res.status}`);
+            setMessage(
+                `Created ${data.backup.name}${data.hot ? ' (hot backup, saving re-enabled)' : ''}` +
+                    (data.backup.warning ? `. Warning: ${data.backup.warning}` : '')
+            );
+            await fetchBackups();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to create backup');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const restoreBackup = async (name: string) => {
+        const target = restoreTarget.trim() || worldName;
+        const overwrite = target === worldName;
+        if (overwrite && !window.confirm(`Replace the current "${worldName}" folder with ${name}?`)) return;
+
+        setBusy(name);
+        setError(null);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/backups/restore', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name, targetWorld: target, overwrite }),
+            });
+            const data: { world?: WorldInfo; error?: string } = await res.json();
+            if (!res.ok || !data.world) throw new Error(data.error || `HTTP ${res.status}`);
+            setMessage(`Restored ${name} into ${data.world.name}`);
+            onRestored?.(data.world);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to restore backup');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const deleteBackup = async (name: string) => {
+        if (!window.confirm(`Delete ${name}? This cannot be undone.`)) return;
+        setBusy(name);
+        setError(null);
+        setMessage(null);
+        try {
+            const res = await fetch(`/api/backups?name=${encodeURIComponent(name)}`, { method: 'DELETE' });
+            const data: { error?: string } = await res.json();
+            if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+            await fetchBackups();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to delete backup');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const restoringOver = !restoreTarget.trim() || restoreTarget.trim() === worldName;
+
+    return (
+        <Card className="rounded-2xl">
+            <CardHeader>
+                <CardTitle>Backups</CardTitle>
+                <CardDescription>
+                    Archives of <span className="font-medium">{worldName}</span> in <code>backups/</code>.
+                    Last backup: {formatRelativeTime(lastBackupAt)}.
+                </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-6">
+                {error && (
+                    <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+                        {error}
+                    </div>
+                )}
+                {message && <p className="text-sm text-neutral-600">{message}</p>}
+
+                <div className="flex items-center gap-3">
+                    <Button onClick={createBackup} disabled={busy !== null}>
+                        {busy === 'create' ? 'Backing up…' : 'Back up now'}
+                    </Button>
+                    <Button variant="outline" onClick={fetchBackups} disabled={isLoading}>
+                        {isLoading ? 'Refreshing…' : 'Refresh'}
+                    </Button>
+                    {running && <span className="text-xs text-neutral-500">Stop the server to restore over this world.</span>}
+                </div>
+
+                {running && (
+                    <div className="space-y-2">
+                        <Label htmlFor="announceSwitch">Announce to players</Label>
+                        <div className="flex items-center gap-3">
+                            <Switch id="announceSwitch" checked={announce} onCheckedChange={setAnnounce} />
+                            <Input
+                                placeholder="Starting a world backup, expect a short lag."
+                                value={announceMessage}
+                                onChange={(e) => setAnnounceMessage(e.target.value)}
+                                disabled={!announce}
+                                aria-label="Announcement message"
+                            />
+                        </div>
+                    </div>
+                )}
+
+                <div className="space-y-1">
+                    <Label htmlFor="restoreTarget">Restore into</Label>
+                    <Input
+                        id="restoreTarget"
+                        placeholder={`${worldName} (replace current)`}
+                        value={restoreTarget}
+                        onChange={(e) => setRestoreTarget(e.target.value)}
+                    />
+                    <p className="text-xs text-neutral-500">
+                        Leave empty to roll this world back, or enter a new name to restore as a copy.
+                    </p>
+                </div>
+
+                {backups.length === 0 ? (
+                    <p className="text-sm text-neutral-500">No backups yet.</p>
+                ) : (
+                    <ul className="divide-y rounded-xl border">
+                        {backups.map((b) => (
+                            <li key={b.name} className="flex items-center justify-between gap-3 p-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium truncate">{b.name}</p>
+                                    <p className="text-xs text-neutral-500">
+                                        {new Date(b.createdAt).toLocaleString()} · {formatBytes(b.sizeBytes)}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Button
+                                        variant="outline"
+                                        onClick={() => restoreBackup(b.name)}
+                                        disabled={busy !== null || (running && restoringOver)}
+                                    >
+                                        {busy === b.name ? 'Working…' : 'Restore'}
+                                    </Button>
+                                    <Button variant="outline" onClick={() => deleteBackup(b.name)} disabled={busy !== null}>
+                                        Delete
+                                    </Button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <Separator />
+
+                <BackupScheduleForm worldName={worldName} onPruned={fetchBackups} />
+            </CardContent>
+        </Card>
+    );
+}
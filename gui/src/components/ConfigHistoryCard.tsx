@@ -0,0 +1,279 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ConfigChange, ConfigVersion } from '@/lib/types';
+import { authorHeaders, getAuthor, setAuthor } from '@/lib/author';
+import { formatRelativeTime } from '@/lib/format';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from '@/components/ui/select';
+
+type Props = {
+    worldName: string;
+    onRolledBack: (file: string) => void;
+};
+
+type ListResponse = { files?: string[]; versions?: ConfigVersion[]; error?: string };
+
+type VersionResponse = {
+    version?: ConfigVersion;
+    content?: string;
+    compareTo?: number | null;
+    changes?: ConfigChange[];
+    error?: string;
+};
+
+const PREVIOUS = 'previous';
+const SHOWN_KEYS = 4;
+
+function describeVersion(v: ConfigVersion) {
+    const keys = v.changedKeys.length > SHOWN_KEYS
+        ? `${v.changedKeys.slice(0, SHOWN_KEYS).join(', ')} +${v.changedKeys.length - SHOWN_KEYS} more`
+        : v.changedKeys.join(', ');
+    return [v.note, keys || (v.note ? '' : 'no changes')].filter(Boolean).join(' · ');
+}
+
+export default function ConfigHistoryCard({ worldName, onRolledBack }: Props) {
+    const [files, setFiles] = useState<string[]>(['server.properties']);
+    const [file, setFile] = useState('server.properties');
+    const [versions, setVersions] = useState<ConfigVersion[]>([]);
+    const [selected, setSelected] = useState<number | null>(null);
+    const [compare, setCompare] = useState<string>(PREVIOUS);
+    const [detail, setDetail] = useState<VersionResponse | null>(null);
+    const [showContent, setShowContent] = useState(false);
+    const [author, setAuthorName] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    // localStorage is only there after hydration
+    useEffect(() => setAuthorName(getAuthor()), []);
+
+    const fetchVersions = useCallback(async () => {
+        try {
+            const res = await fetch(
+                `/api/config-history?world=${encodeURIComponent(worldName)}&file=${encodeURIComponent(file)}`,
+                { cache: 'no-store' }
+            );
+            const data: ListResponse = await res.json();
+            if (!res.ok || !data.versions) throw new Error(data.error || `HTTP ${res.status}`);
+            setVersions(data.versions);
+            if (data.files) setFiles(data.files);
+            setError(null);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load history');
+            setVersions([]);
+        }
+    }, [worldName, file]);
+
+    useEffect(() => {
+        setSelected(null);
+        setDetail(null);
+        setMessage(null);
+        fetchVersions();
+    }, [fetchVersions]);
+
+    const fetchDetail = useCallback(async () => {
+        if (selected === null) return;
+        try {
+            const params = new URLSearchParams({ world: worldName, file, version: String(selected) });
+            if (compare !== PREVIOUS) params.set('compare', compare);
+            const res = await fetch(`/api/config-history?${params}`, { cache: 'no-store' });
+            const data: VersionResponse = await res.json();
+            if (!res.ok || !data.version) throw new Error(data.error || `HTTP ${res.status}`);
+            setDetail(data);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load version');
+            setDetail(null);
+        }
+    }, [worldName, file, selected, compare]);
+
+    useEffect(() => {
+        fetchDetail();
+    }, [fetchDetail]);
+
+    const rollback = useCallback(async (version: number) => {
+        if (!confirm(`Replace ${file} with version ${version}?`)) return;
+        setBusy(true);
+        setError(null);
+        setMessage(null);
+        try {
+            const params = new URLSearchParams({ world: worldName, file, version: String(version) });
+            const res = await fetch(`/api/config-history?${params}`, { method: 'POST', headers: authorHeaders() });
+            const data: { version?: ConfigVersion | null; error?: string } = await res.json();
+            if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+            setMessage(
+                data.version
+                    ? `Rolled back to version ${version} (saved as version ${data.version.version}). It applies when the server next reads ${file}.`
+                    : `${file} already matches version ${version}.`
+            );
+            await fetchVersions();
+            onRolledBack(file);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to roll back');
+        } finally {
+            setBusy(false);
+        }
+    }, [worldName, file, fetchVersions, onRolledBack]);
+
+    const latest = versions[0]?.version ?? null;
+
+    return (
+        <Card className="rounded-2xl">
+            <CardHeader>
+                <div className="flex items-start justify-between gap-3">
+                    <div className="space-y-1.5">
+                        <CardTitle>Change History</CardTitle>
+                        <CardDescription>
+                            Every saved version of the config files of <span className="font-medium">{worldName}</span>, with who changed what.
+                        </CardDescription>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={fetchVersions}>
+                        Refresh
+                    </Button>
+                </div>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+                {error && (
+                    <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+                        {error}
+                    </div>
+                )}
+                {message && <p className="text-sm text-neutral-600">{message}</p>}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                        <Label>File</Label>
+                        <Select value={file} onValueChange={setFile}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {files.map((f) => (
+                                    <SelectItem key={f} value={f}>
+                                        {f}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="historyAuthor">Record my changes as</Label>
+                        <Input
+                            id="historyAuthor"
+                            placeholder="Your name"
+                            value={author}
+                            onChange={(e) => {
+                                setAuthorName(e.target.value);
+                                setAuthor(e.target.value);
+                            }}
+                        />
+                    </div>
+                </div>
+
+                {versions.length === 0 ? (
+                    <p className="text-sm text-neutral-500">No versions of {file} yet.</p>
+                ) : (
+                    <ul className="divide-y rounded-xl border max-h-72 overflow-y-auto">
+                        {versions.map((v) => (
+                            <li key={v.version}>
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setSelected(v.version === selected ? null : v.version);
+                                        setCompare(PREVIOUS);
+                                        setShowContent(false);
+                                    }}
+                                    className={`w-full px-3 py-2 text-left text-xs ${v.version === selected ? 'bg-neutral-100' : 'hover:bg-neutral-50'}`}
+                                >
+                                    <span className="font-medium">v{v.version}</span>
+                                    {v.version === latest && <span className="text-neutral-500"> (current)</span>}
+                                    {' · '}{formatRelativeTime(v.at)}
+                                    {' · '}{v.author ?? <span className="italic">outside the GUI</span>}
+                                    <span className="block truncate text-neutral-500">{describeVersion(v)}</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {selected !== null && detail?.version && (
+                    <div className="rounded-xl border p-3 space-y-3">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <p className="text-sm font-medium">
+                                Version {selected} · {new Date(detail.version.at).toLocaleString()}
+                            </p>
+                            <div className="flex items-center gap-2">
+                                <span className="text-xs text-neutral-500">compared with</span>
+                                <Select value={compare} onValueChange={setCompare}>
+                                    <SelectTrigger className="h-8 w-40">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={PREVIOUS}>previous version</SelectItem>
+                                        {versions
+                                            .filter((v) => v.version !== selected)
+                                            .map((v) => (
+                                                <SelectItem key={v.version} value={String(v.version)}>
+                                                    v{v.version}
+                                                </SelectItem>
+                                            ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        {detail.changes && detail.changes.length > 0 ? (
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-left text-neutral-500">
+                                        <th className="pb-1 pr-3 font-normal">{file === 'server.properties' ? 'Key' : 'Entry'}</th>
+                                        <th className="pb-1 pr-3 font-normal">{detail.compareTo === null ? 'Before' : `v${detail.compareTo}`}</th>
+                                        <th className="pb-1 font-normal">v{selected}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {detail.changes.map((c) => (
+                                        <tr key={c.key} className="align-top">
+                                            <td className="py-0.5 pr-3 font-mono">{c.key}</td>
+                                            <td className="py-0.5 pr-3 break-all text-red-700">
+                                                {c.from === null ? <span className="italic text-neutral-400">absent</span> : c.from || '(empty)'}
+                                            </td>
+                                            <td className="py-0.5 break-all text-green-700">
+                                                {c.to === null ? <span className="italic text-neutral-400">absent</span> : c.to || '(empty)'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        ) : (
+                            <p className="text-xs text-neutral-500">No differences.</p>
+                        )}
+
+                        {showContent && (
+                            <pre className="max-h-64 overflow-auto rounded-lg bg-neutral-50 p-2 text-xs">{detail.content}</pre>
+                        )}
+
+                        <div className="flex items-center gap-2">
+                            <Button size="sm" variant="outline" onClick={() => setShowContent((v) => !v)}>
+                                {showContent ? 'Hide file' : 'Show file'}
+                            </Button>
+                            <Button size="sm" onClick={() => rollback(selected)} disabled={busy || selected === latest}>
+                                {busy ? 'Rolling back…' : `Roll back to v${selected}`}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
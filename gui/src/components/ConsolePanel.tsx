@@ -0,0 +1,167 @@
+'use client';
+
+import { KeyboardEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+type Props = {
+    worldName: string;
+    running: boolean;
+};
+
+const MAX_LINES = 1000;
+const MAX_HISTORY = 100;
+
+export default function ConsolePanel({ worldName, running }: Props) {
+    const [lines, setLines] = useState<string[]>([]);
+    const [connected, setConnected] = useState(false);
+    const [follow, setFollow] = useState(true);
+    const scrollRef = useRef<HTMLPreElement>(null);
+
+    // Command input; history is newest-last, historyIndex === history.length means "not browsing"
+    const [command, setCommand] = useState('');
+    const [history, setHistory] = useState<string[]>([]);
+    const [historyIndex, setHistoryIndex] = useState(0);
+    const [sending, setSending] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // (Re)connect whenever the world changes; EventSource retries on its own after drops
+    useEffect(() => {
+        setLines([]);
+        setConnected(false);
+        const es = new EventSource(`/api/server/console?worldName=${encodeURIComponent(worldName)}`);
+
+        es.onmessage = (ev) => {
+            let line: string;
+            try {
+                line = JSON.parse(ev.data) as string;
+            } catch {
+                line = ev.data;
+            }
+            setLines((prev) => {
+                const next = prev.length >= MAX_LINES ? prev.slice(prev.length - MAX_LINES + 1) : prev.slice();
+                next.push(line);
+                return next;
+            });
+        };
+        es.addEventListener('ready', () => setConnected(true));
+        // A reconnect replays recent lines, so start from a clean slate
+        es.onopen = () => setLines([]);
+        es.onerror = () => setConnected(false);
+
+        return () => es.close();
+    }, [worldName]);
+
+    useEffect(() => {
+        const el = scrollRef.current;
+        if (follow && el) el.scrollTop = el.scrollHeight;
+    }, [lines, follow]);
+
+    const sendCommand = useCallback(async () => {
+        const line = command.trim();
+        if (!line) return;
+        setSending(true);
+        setError(null);
+        try {
+            const res = await fetch('/api/server/command', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ worldName, command: line }),
+            });
+            if (!res.ok) throw new Error(await res.text());
+            const data: { via?: 'rcon' | 'stdin'; output?: string | null } = await res.json();
+            // RCON replies never reach the server log, so show them inline
+            if (data.via === 'rcon') {
+                const reply = (data.output ?? '').split('\n').filter((l) => l !== '');
+                setLines((prev) => [...prev, `> ${line}`, ...reply.map((l) => `[rcon] ${l}`)].slice(-MAX_LINES));
+            }
+            const next = history[history.length - 1] === line ? history : [...history, line].slice(-MAX_HISTORY);
+            setHistory(next);
+            setHistoryIndex(next.length);
+            setCommand('');
+            setFollow(true);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to send command');
+        } finally {
+            setSending(false);
+        }
+    }, [worldName, command, history]);
+
+    const onCommandKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            sendCommand();
+        } else if (e.key === 'ArrowUp' && history.length > 0) {
+            e.preventDefault();
+            const i = Math.max(0, historyIndex - 1);
+            setHistoryIndex(i);
+            setCommand(history[i]);
+        } else if (e.key === 'ArrowDown' && historyIndex < history.length) {
+            e.preventDefault();
+            const i = historyIndex + 1;
+            setHistoryIndex(i);
+            setCommand(i < history.length ? history[i] : '');
+        }
+    };
+
+    return (
+        <Card className="rounded-2xl">
+            <CardHeader>
+                <CardTitle>Console</CardTitle>
+                <CardDescription>
+                    Live server output for <span className="font-medium">{worldName}</span>
+                    {connected ? '' : ' (connecting…)'}
+                </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-3">
+                <pre
+                    ref={scrollRef}
+                    className="h-80 overflow-auto rounded-xl bg-neutral-950 p-3 font-mono text-xs leading-5 text-neutral-100"
+                    onScroll={(e) => {
+                        const el = e.currentTarget;
+                        setFollow(el.scrollHeight - el.scrollTop - el.clientHeight < 24);
+                    }}
+                >
+                    {lines.length === 0 ? (
+                        <span className="text-neutral-500">No output yet.</span>
+                    ) : (
+                        lines.join('\n')
+                    )}
+                </pre>
+
+                {error && (
+                    <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+                        {error}
+                    </div>
+                )}
+
+                <div className="flex items-center gap-3">
+                    <Input
+                        className="font-mono"
+                        placeholder={running ? 'e.g. say Hello (↑/↓ for history)' : 'Server is not running'}
+                        value={command}
+                        onChange={(e) => {
+                            setCommand(e.target.value);
+                            setHistoryIndex(history.length);
+                        }}
+                        onKeyDown={onCommandKeyDown}
+                        disabled={!running || sending}
+                        aria-label="Console command"
+                    />
+                    <Button onClick={sendCommand} disabled={!running || sending || !command.trim()}>
+                        {sending ? 'Sending…' : 'Send'}
+                    </Button>
+                </div>
+
+                <div className="flex items-center gap-3">
+                    <Button variant="outline" onClick={() => setLines([])}>Clear</Button>
+                    {!follow && (
+                        <Button variant="outline" onClick={() => setFollow(true)}>Jump to latest</Button>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CrashHistory, ServerExit } from '@/lib/types';
+import { RestartPolicy } from '@/lib/launchProfile';
+import { formatDuration, formatRelativeTime } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+
+type Props = {
+    worldName: string;
+    running: boolean;
+    onChange?: () => void;          // an exit or restart happened; the caller refreshes its status
+};
+
+type CrashesResponse = CrashHistory & { policy: RestartPolicy };
+
+const SHOWN = 8;
+
+const KIND_LABELS: Record<ServerExit['kind'], string> = {
+    crash: 'Crashed',
+    stopped: 'Stopped',
+    exited: 'Exited',
+};
+
+const RESTART_LABELS: Record<NonNullable<ServerExit['restart']>, string> = {
+    scheduled: 'restart scheduled',
+    restarted: 'restarted',
+    failed: 'restart failed',
+    cancelled: 'restart cancelled',
+    'gave-up': 'too many crashes, not restarted',
+    disabled: 'auto-restart off',
+};
+
+function describeExit(e: ServerExit): string {
+    if (e.signal) return `signal ${e.signal}`;
+    if (e.code !== null) return `exit code ${e.code}`;
+    return 'exit status unknown';
+}
+
+export default function CrashHistoryPanel({ worldName, running, onChange }: Props) {
+    const [data, setData] = useState<CrashesResponse | null>(null);
+    const [cancelling, setCancelling] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const lastSeen = useRef<string | null>(null);
+
+    const fetchHistory = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/server/crashes?worldName=${encodeURIComponent(worldName)}`, { cache: 'no-store' });
+            if (!res.ok) throw new Error(await res.text());
+            const body: CrashesResponse = await res.json();
+            setData(body);
+            setError(null);
+
+            const newest = body.exits[0];
+            const key = newest ? `${newest.at}:${newest.restart}` : null;
+            if (lastSeen.current !== null && key !== lastSeen.current) onChange?.();
+            lastSeen.current = key ?? '';
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load crash history');
+        }
+    }, [worldName, onChange]);
+
+    useEffect(() => {
+        lastSeen.current = null;
+        fetchHistory();
+    }, [fetchHistory, running]);
+
+    // Poll faster while a restart is counting down
+    const pending = data?.pendingRestartAt ?? null;
+    useEffect(() => {
+        const t = setInterval(fetchHistory, pending ? 2000 : 10_000);
+        return () => clearInterval(t);
+    }, [fetchHistory, pending]);
+
+    // A stop request also calls off a scheduled restart
+    const cancelRestart = async () => {
+        setCancelling(true);
+        try {
+            const res = await fetch('/api/server/stop', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ worldName }),
+            });
+            if (!res.ok) throw new Error(await res.text());
+            await fetchHistory();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to cancel restart');
+        } finally {
+            setCancelling(false);
+        }
+    };
+
+    if (!data || (!data.exits.length && !error)) return null;
+
+    return (
+        <div className="rounded-xl border px-4 py-3 space-y-2">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <p className="text-sm font-medium">Exit history</p>
+                <p className="text-xs text-neutral-500">
+                    {data.policy.enabled
+                        ? `Auto-restart on · ${data.crashesInWindow}/${data.policy.maxRestarts} crashes in the last ${formatDuration(data.policy.windowSeconds * 1000)}`
+                        : 'Auto-restart off'}
+                </p>
+            </div>
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            {pending && (
+                <div className="flex items-center justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                    <span>Restarting after a crash at {new Date(pending).toLocaleTimeString()}.</span>
+                    <Button size="sm" variant="outline" onClick={cancelRestart} disabled={cancelling}>
+                        {cancelling ? 'Cancelling…' : 'Cancel restart'}
+                    </Button>
+                </div>
+            )}
+
+            <ul className="space-y-1">
+                {data.exits.slice(0, SHOWN).map((e) => (
+                    <li key={`${e.at}-${e.pid}`} className="text-xs text-neutral-700">
+                        <span className={e.kind === 'crash' ? 'font-medium text-red-700' : 'font-medium'}>{KIND_LABELS[e.kind]}</span>
+                        {' '}{formatRelativeTime(e.at)} ({new Date(e.at).toLocaleString()})
+                        {' · '}{describeExit(e)}
+                        {e.uptimeMs !== null && ` · up ${formatDuration(e.uptimeMs)}`}
+                        {e.restart && ` · ${RESTART_LABELS[e.restart]}`}
+                        {e.restartError && <span className="block text-red-600">{e.restartError}</span>}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+import { WorldInfo } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from '@/components/ui/select';
+
+type Props = {
+    onCreated: (world: WorldInfo) => void;
+    onCancel: () => void;
+};
+
+const LEVEL_TYPE_OPTIONS = [
+    { value: 'minecraft:normal', label: 'Default' },
+    { value: 'minecraft:flat', label: 'Superflat' },
+    { value: 'minecraft:large_biomes', label: 'Large Biomes' },
+    { value: 'minecraft:amplified', label: 'Amplified' },
+] as const;
+const GAMEMODE_OPTIONS = ['survival', 'creative', 'adventure', 'spectator'] as const;
+const DIFFICULTY_OPTIONS = ['peaceful', 'easy', 'normal', 'hard'] as const;
+
+const capitalize = (s: string) => s[0].toUpperCase() + s.slice(1);
+
+export default function CreateWorldCard({ onCreated, onCancel }: Props) {
+    const [name, setName] = useState('');
+    const [seed, setSeed] = useState('');
+    const [levelType, setLevelType] = useState<string>('minecraft:normal');
+    const [gamemode, setGamemode] = useState<string>('survival');
+    const [difficulty, setDifficulty] = useState<string>('easy');
+    const [hardcore, setHardcore] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [fieldErrors, setFieldErrors] = useState<Record<string, string[] | undefined>>({});
+
+    const nameValid = /^[A-Za-z0-9._-]+$/.test(name.trim());
+
+    const create = async () => {
+        setIsCreating(true);
+        setError(null);
+        setFieldErrors({});
+        try {
+            const res = await fetch('/api/worlds', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: name.trim(),
+                    'level-seed': seed.trim(),
+                    'level-type': levelType,
+                    gamemode,
+                    difficulty,
+                    hardcore,
+                }),
+            });
+            const data: {
+                world?: WorldInfo;
+                error?: string;
+                fieldErrors?: Record<string, string[] | undefined>;
+            } = await res.json();
+            if (!res.ok || !data.world) {
+                setFieldErrors(data.fieldErrors ?? {});
+                throw new Error(data.error || `HTTP ${res.status}`);
+            }
+            onCreated(data.world);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to create world');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    return (
+        <Card className="rounded-2xl">
+            <CardHeader>
+                <CardTitle>New World</CardTitle>
+                <CardDescription>
+                    Creates <code>worlds/&lt;name&gt;</code> with a server.properties based on the defaults.
+                    Generation settings only apply before the server first starts.
+                </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-6">
+                {error && (
+                    <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+                        {error}
+                        {Object.entries(fieldErrors).map(([key, msgs]) => (
+                            <p key={key} className="text-xs">{key}: {msgs?.join(', ')}</p>
+                        ))}
+                    </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                        <Label htmlFor="newWorldName">Name</Label>
+                        <Input
+                            id="newWorldName"
+                            placeholder="my-world"
+                            value={name}
+                            aria-invalid={name !== '' && !nameValid}
+                            onChange={(e) => setName(e.target.value)}
+                        />
+                        <p className="text-xs text-neutral-500">
+                            Letters, numbers, dots, dashes and underscores.
+                        </p>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="newWorldSeed">Seed</Label>
+                        <Input
+                            id="newWorldSeed"
+                            placeholder="Random"
+                            value={seed}
+                            onChange={(e) => setSeed(e.target.value)}
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>World Type</Label>
+                        <Select value={levelType} onValueChange={setLevelType}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="Select world type" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {LEVEL_TYPE_OPTIONS.map((opt) => (
+                                    <SelectItem key={opt.value} value={opt.value}>
+                                        {opt.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>Game Mode</Label>
+                        <Select value={gamemode} onValueChange={setGamemode}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="Select game mode" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {GAMEMODE_OPTIONS.map((opt) => (
+                                    <SelectItem key={opt} value={opt}>
+                                        {capitalize(opt)}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>Difficulty</Label>
+                        <Select value={difficulty} onValueChange={setDifficulty}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="Select difficulty" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {DIFFICULTY_OPTIONS.map((opt) => (
+                                    <SelectItem key={opt} value={opt}>
+                                        {capitalize(opt)}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="newWorldHardcore">Hardcore</Label>
+                        <div className="flex items-center gap-3">
+                            <Switch id="newWorldHardcore" checked={hardcore} onCheckedChange={setHardcore} />
+                            <span className="text-sm text-neutral-700">One life; the world is locked to hard difficulty.</span>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                    <Button onClick={create} disabled={!nameValid || isCreating}>
+                        {isCreating ? 'Creating…' : 'Create world'}
+                    </Button>
+                    <Button variant="outline" onClick={onCancel} disabled={isCreating}>
+                        Cancel
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
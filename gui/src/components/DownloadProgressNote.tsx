@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DownloadProgress } from '@/lib/types';
+import { formatBytes } from '@/lib/format';
+
+type Props = {
+    active: boolean;    // poll only while the caller waits on something that may download
+    version?: string;   // limit to one version; all downloads otherwise
+};
+
+export default function DownloadProgressNote({ active, version }: Props) {
+    const [downloads, setDownloads] = useState<DownloadProgress[]>([]);
+
+    useEffect(() => {
+        if (!active) {
+            setDownloads([]);
+            return;
+        }
+        let cancelled = false;
+        const poll = async () => {
+            try {
+                const q = version ? `?version=${encodeURIComponent(version)}` : '';
+                const res = await fetch(`/api/versions/progress${q}`, { cache: 'no-store' });
+                const data: { downloads?: DownloadProgress[] } = await res.json();
+                if (!cancelled) setDownloads((data.downloads ?? []).filter((d) => d.state === 'downloading' || d.state === 'verifying'));
+            } catch { /* next poll */ }
+        };
+        poll();
+        const t = setInterval(poll, 1000);
+        return () => {
+            cancelled = true;
+            clearInterval(t);
+        };
+    }, [active, version]);
+
+    if (!active || downloads.length === 0) return null;
+
+    return (
+        <div className="space-y-2">
+            {downloads.map((d) => {
+                const pct = d.totalBytes ? Math.min(100, Math.round((d.receivedBytes / d.totalBytes) * 100)) : null;
+                return (
+                    <div key={`${d.version}-${d.startedAt}`} className="space-y-1">
+                        <p className="text-xs text-neutral-600">
+                            {d.state === 'verifying' ? `Verifying ${d.version}…` : `Downloading ${d.version}…`}{' '}
+                            {formatBytes(d.receivedBytes)}
+                            {d.totalBytes ? ` / ${formatBytes(d.totalBytes)}` : ''}
+                            {pct !== null ? ` (${pct}%)` : ''}
+                        </p>
+                        <div className="h-1.5 w-full rounded-full bg-neutral-100">
+                            <div className="h-1.5 rounded-full bg-neutral-800 transition-all" style={{ width: `${pct ?? 100}%` }} />
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { GC_PRESETS, GcPreset, LaunchProfile } from '@/lib/launchProfile';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+type Props = {
+    worldName: string;
+    running: boolean;
+};
+
+type ProfileResponse = {
+    profile?: LaunchProfile;
+    jvmArgs?: string[];
+    invalid?: string;
+    error?: string;
+    fieldErrors?: Record<string, string[] | undefined>;
+};
+
+// Form state is all strings but the restart switch; lists are one entry per line
+type Form = {
+    xmx: string;
+    xms: string;
+    gcPreset: GcPreset;
+    jvmArgs: string;
+    jar: string;
+    port: string;
+    env: string;
+    restartEnabled: boolean;
+    maxRestarts: string;
+    windowSeconds: string;
+    initialDelaySeconds: string;
+    maxDelaySeconds: string;
+};
+
+const GC_LABELS: Record<GcPreset, string> = {
+    default: 'JVM default',
+    g1: 'G1',
+    aikar: "G1 with Aikar's flags",
+    zgc: 'ZGC',
+};
+
+const textareaClass =
+    'w-full min-h-20 rounded-md border border-input bg-transparent px-3 py-2 font-mono text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+function toForm(p: LaunchProfile): Form {
+    return {
+        xmx: p.xmx,
+        xms: p.xms ?? '',
+        gcPreset: p.gcPreset,
+        jvmArgs: p.jvmArgs.join('\n'),
+        jar: p.jar ?? '',
+        port: String(p.port),
+        env: Object.entries(p.env).map(([k, v]) => `${k}=${v}`).join('\n'),
+        restartEnabled: p.restart.enabled,
+        maxRestarts: String(p.restart.maxRestarts),
+        windowSeconds: String(p.restart.windowSeconds),
+        initialDelaySeconds: String(p.restart.initialDelaySeconds),
+        maxDelaySeconds: String(p.restart.maxDelaySeconds),
+    };
+}
+
+const lines = (s: string) => s.split('\n').map((l) => l.trim()).filter(Boolean);
+
+function fromForm(f: Form) {
+    const env: Record<string, string> = {};
+    for (const line of lines(f.env)) {
+        const eq = line.indexOf('=');
+        if (eq > 0) env[line.slice(0, eq).trim()] = line.slice(eq + 1);
+        else env[line] = '';
+    }
+    return {
+        xmx: f.xmx.trim(),
+        xms: f.xms.trim() || null,
+        gcPreset: f.gcPreset,
+        jvmArgs: lines(f.jvmArgs),
+        jar: f.jar.trim() || null,
+        port: Number(f.port),
+        env,
+        restart: {
+            enabled: f.restartEnabled,
+            maxRestarts: Number(f.maxRestarts),
+            windowSeconds: Number(f.windowSeconds),
+            initialDelaySeconds: Number(f.initialDelaySeconds),
+            maxDelaySeconds: Number(f.maxDelaySeconds),
+        },
+    };
+}
+
+export default function LaunchProfileCard({ worldName, running }: Props) {
+    const [form, setForm] = useState<Form | null>(null);
+    const [saved, setSaved] = useState<Form | null>(null);
+    const [jvmArgs, setJvmArgs] = useState<string[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const fetchProfile = useCallback(async () => {
+        setError(null);
+        setMessage(null);
+        try {
+            const res = await fetch(`/api/launch-profile?world=${encodeURIComponent(worldName)}`, { cache: 'no-store' });
+            const data: ProfileResponse = await res.json();
+            if (!res.ok || !data.profile) throw new Error(data.error || `HTTP ${res.status}`);
+            const f = toForm(data.profile);
+            setForm(f);
+            setSaved(f);
+            setJvmArgs(data.jvmArgs ?? []);
+            if (data.invalid) setError(`${data.invalid}. Showing defaults; saving replaces the file.`);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load launch profile');
+        }
+    }, [worldName]);
+
+    useEffect(() => {
+        fetchProfile();
+    }, [fetchProfile]);
+
+    const hasChanges = form !== null && JSON.stringify(form) !== JSON.stringify(saved);
+    const set = (key: Exclude<keyof Form, 'restartEnabled'>) => (value: string) => setForm((f) => (f ? { ...f, [key]: value } : f));
+
+    const save = async () => {
+        if (!form) return;
+        setIsSaving(true);
+        setError(null);
+        setMessage(null);
+        try {
+            const res = await fetch(`/api/launch-profile?world=${encodeURIComponent(worldName)}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(fromForm(form)),
+            });
+            const data: ProfileResponse = await res.json();
+            if (!res.ok || !data.profile) {
+                const details = Object.entries(data.fieldErrors ?? {}).map(([k, v]) => `${k}: ${v?.join(', ')}`);
+                throw new Error([data.error || `HTTP ${res.status}`, ...details].join(' · '));
+            }
+            const f = toForm(data.profile);
+            setForm(f);
+            setSaved(f);
+            setJvmArgs(data.jvmArgs ?? []);
+            setMessage(running ? 'Saved. Restart the server to apply.' : 'Saved.');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to save launch profile');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Card className="rounded-2xl">
+            <CardHeader>
+                <CardTitle>Launch Profile</CardTitle>
+                <CardDescription>
+                    How <span className="font-medium">{worldName}</span> is started, from <code>launcher.json</code>.
+                </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-6">
+                {error && (
+                    <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+                        {error}
+                    </div>
+                )}
+                {message && <p className="text-sm text-neutral-600">{message}</p>}
+
+                {form && (
+                    <>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                            <div className="space-y-2">
+                                <Label htmlFor="xmx">Max memory (Xmx)</Label>
+                                <Input id="xmx" placeholder="4G" value={form.xmx} onChange={(e) => set('xmx')(e.target.value)} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="xms">Initial memory (Xms)</Label>
+                                <Input id="xms" placeholder="same as Xmx" value={form.xms} onChange={(e) => set('xms')(e.target.value)} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="preferredPort">Preferred port</Label>
+                                <Input
+                                    id="preferredPort"
+                                    type="number"
+                                    min={1}
+                                    max={65535}
+                                    value={form.port}
+                                    onChange={(e) => set('port')(e.target.value)}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div className="space-y-2">
+                                <Label htmlFor="gcPreset">Garbage collector</Label>
+                                <Select value={form.gcPreset} onValueChange={(v) => set('gcPreset')(v)}>
+                                    <SelectTrigger id="gcPreset">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(GC_PRESETS) as GcPreset[]).map((k) => (
+                                            <SelectItem key={k} value={k}>
+                                                {GC_LABELS[k]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="jarOverride">Server jar</Label>
+                                <Input
+                                    id="jarOverride"
+                                    placeholder="pinned version, else newest jar"
+                                    value={form.jar}
+                                    onChange={(e) => set('jar')(e.target.value)}
+                                />
+                                <p className="text-xs text-neutral-500">Path relative to the repo root; overrides the pinned version.</p>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div className="space-y-2">
+                                <Label htmlFor="jvmArgs">Extra JVM arguments</Label>
+                                <textarea
+                                    id="jvmArgs"
+                                    className={textareaClass}
+                                    placeholder="-Dfile.encoding=UTF-8"
+                                    value={form.jvmArgs}
+                                    onChange={(e) => set('jvmArgs')(e.target.value)}
+                                />
+                                <p className="text-xs text-neutral-500">One per line.</p>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="envVars">Environment</Label>
+                                <textarea
+                                    id="envVars"
+                                    className={textareaClass}
+                                    placeholder="TZ=Europe/Berlin"
+                                    value={form.env}
+                                    onChange={(e) => set('env')(e.target.value)}
+                                />
+                                <p className="text-xs text-neutral-500">KEY=value, one per line.</p>
+                            </div>
+                        </div>
+
+                        <div className="space-y-3">
+                            <div className="flex items-center gap-2">
+                                <Switch
+                                    id="restartEnabled"
+                                    checked={form.restartEnabled}
+                                    onCheckedChange={(v) => setForm((f) => (f ? { ...f, restartEnabled: v } : f))}
+                                />
+                                <Label htmlFor="restartEnabled">Restart after a crash</Label>
+                            </div>
+                            {form.restartEnabled && (
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                    {([
+                                        ['maxRestarts', 'Max restarts'],
+                                        ['windowSeconds', 'Per window (s)'],
+                                        ['initialDelaySeconds', 'First delay (s)'],
+                                        ['maxDelaySeconds', 'Max delay (s)'],
+                                    ] as const).map(([key, label]) => (
+                                        <div key={key} className="space-y-2">
+                                            <Label htmlFor={key}>{label}</Label>
+                                            <Input id={key} type="number" min={0} value={form[key]} onChange={(e) => set(key)(e.target.value)} />
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            <p className="text-xs text-neutral-500">
+                                The delay doubles with each crash in the window; after the maximum the server stays down. Stopping it here never restarts it.
+                            </p>
+                        </div>
+
+                        {jvmArgs.length > 0 && (
+                            <p className="text-xs text-neutral-500 break-all">
+                                Saved flags: <code>{jvmArgs.join(' ')}</code>
+                            </p>
+                        )}
+
+                        <div className="flex items-center gap-3">
+                            <Button onClick={save} disabled={!hasChanges || isSaving}>
+                                {isSaving ? 'Saving…' : 'Save profile'}
+                            </Button>
+                            {hasChanges && <span className="text-xs text-neutral-500">Unsaved changes</span>}
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { MetricsRange, MetricsSample } from '@/lib/types';
+import { formatBytes } from '@/lib/format';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+type Props = {
+    worldName: string;
+};
+
+type HistoryResponse = {
+    samples?: MetricsSample[];
+    intervalSeconds?: number;
+    error?: string;
+};
+
+const RANGES: MetricsRange[] = ['1h', '24h', '7d'];
+const RANGE_MS: Record<MetricsRange, number> = { '1h': 3600_000, '24h': 86_400_000, '7d': 7 * 86_400_000 };
+
+const WIDTH = 600;
+const HEIGHT = 80;
+
+type Series = {
+    title: string;
+    value: (s: MetricsSample) => number | null;
+    format: (v: number) => string;
+    min?: number;               // fixed axis bounds where the scale is known
+    max?: number;
+};
+
+const SERIES: Series[] = [
+    { title: 'Players', value: (s) => s.players, format: (v) => String(Math.round(v * 10) / 10), min: 0 },
+    { title: 'Memory (RSS)', value: (s) => s.rssBytes, format: formatBytes, min: 0 },
+    { title: 'CPU', value: (s) => s.cpuPercent, format: (v) => `${Math.round(v)}%`, min: 0 },
+    { title: 'TPS', value: (s) => s.tps, format: (v) => v.toFixed(1), min: 0, max: 20 },
+];
+
+// A gap of more than a few sample intervals (server stopped) breaks the line
+function toPaths(points: { t: number; v: number }[], from: number, to: number, lo: number, hi: number, gapMs: number): string[] {
+    const x = (t: number) => ((t - from) / (to - from)) * WIDTH;
+    const y = (v: number) => HEIGHT - ((v - lo) / (hi - lo || 1)) * HEIGHT;
+    const paths: string[] = [];
+    let d = '';
+    let prevT: number | null = null;
+    for (const p of points) {
+        const cmd = prevT === null || p.t - prevT > gapMs ? 'M' : 'L';
+        if (cmd === 'M' && d) {
+            paths.push(d);
+            d = '';
+        }
+        d += `${cmd}${x(p.t).toFixed(1)},${y(p.v).toFixed(1)} `;
+        prevT = p.t;
+    }
+    if (d) paths.push(d);
+    return paths;
+}
+
+function Chart({ series, samples, from, to, gapMs }: { series: Series; samples: MetricsSample[]; from: number; to: number; gapMs: number }) {
+    const points = samples
+        .map((s) => ({ t: s.t, v: series.value(s) }))
+        .filter((p): p is { t: number; v: number } => p.v !== null);
+    const values = points.map((p) => p.v);
+    const lo = series.min ?? Math.min(...values);
+    const hi = Math.max(series.max ?? -Infinity, ...values);
+    const latest = points.length ? points[points.length - 1].v : 0;
+
+    return (
+        <div className="space-y-1">
+            <div className="flex items-baseline justify-between text-xs">
+                <span className="text-neutral-500">{series.title}</span>
+                <span className="text-neutral-700">
+                    {points.length ? (
+                        <>
+                            <span className="font-medium">{series.format(latest)}</span>
+                            <span className="text-neutral-400"> · max {series.format(Math.max(...values))}</span>
+                        </>
+                    ) : (
+                        'no data'
+                    )}
+                </span>
+            </div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-16 rounded-md bg-neutral-50">
+                {points.length > 0 &&
+                    toPaths(points, from, to, lo, hi, gapMs).map((d, i) => (
+                        <path key={i} d={d} fill="none" stroke="currentColor" strokeWidth={1.5} vectorEffect="non-scaling-stroke" className="text-neutral-700" />
+                    ))}
+            </svg>
+        </div>
+    );
+}
+
+export default function MetricsHistoryCard({ worldName }: Props) {
+    const [range, setRange] = useState<MetricsRange>('1h');
+    const [data, setData] = useState<HistoryResponse | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+
+    const fetchHistory = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/metrics/history?world=${encodeURIComponent(worldName)}&range=${range}`, { cache: 'no-store' });
+            const body: HistoryResponse = await res.json();
+            if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+            setData(body);
+            setNow(Date.now());
+            setError(null);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load history');
+        }
+    }, [worldName, range]);
+
+    useEffect(() => {
+        fetchHistory();
+        const t = setInterval(fetchHistory, 60_000);
+        return () => clearInterval(t);
+    }, [fetchHistory]);
+
+    const samples = data?.samples ?? [];
+    const from = now - RANGE_MS[range];
+    // Averaged points are spaced by their span; raw ones by the sample interval
+    const step = Math.max(samples[0]?.span ?? 0, (data?.intervalSeconds ?? 30) * 1000);
+    const gapMs = step * 3;
+
+    return (
+        <Card className="rounded-2xl">
+            <CardHeader>
+                <div className="flex items-start justify-between gap-3">
+                    <div className="space-y-1.5">
+                        <CardTitle>History</CardTitle>
+                        <CardDescription>
+                            Players, memory, CPU and TPS of <span className="font-medium">{worldName}</span> while it runs.
+                            {data?.intervalSeconds === 0 && ' Sampling is turned off (MC_METRICS_INTERVAL_SECONDS=0).'}
+                        </CardDescription>
+                    </div>
+                    <div className="flex gap-1">
+                        {RANGES.map((r) => (
+                            <Button key={r} size="sm" variant={r === range ? 'default' : 'outline'} onClick={() => setRange(r)}>
+                                {r}
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+                {error && (
+                    <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+                        {error}
+                    </div>
+                )}
+                {!error && samples.length === 0 && (
+                    <p className="text-sm text-neutral-500">No samples in the last {range} yet.</p>
+                )}
+                {samples.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {SERIES.map((s) => (
+                            <Chart key={s.title} series={s} samples={samples} from={from} to={now} gapMs={gapMs} />
+                        ))}
+                    </div>
+                )}
+                {samples.length > 0 && samples.every((s) => s.tps === null) && (
+                    <p className="text-xs text-neutral-500">TPS needs RCON (enable-rcon and rcon.password).</p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
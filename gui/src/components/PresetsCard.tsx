@@ -0,0 +1,415 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { PresetApplyResult, PropertyPreset, WorldInfo } from '@/lib/types';
+import { authorHeaders } from '@/lib/author';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from '@/components/ui/select';
+
+type Props = {
+    worldName: string;                      // selected world: the default source and target
+    onApplied: (worlds: string[]) => void;
+};
+
+type ErrorBody = { error?: string; fieldErrors?: Record<string, string[]> };
+
+type ApplyResponse = ErrorBody & { results?: PresetApplyResult[] };
+
+const DEFAULTS_SOURCE = '__defaults__';
+
+function errorMessage(data: ErrorBody, status: number) {
+    const details = Object.entries(data.fieldErrors ?? {}).map(([k, v]) => `${k}: ${v.join(', ')}`);
+    return [data.error || `HTTP ${status}`, ...details].join(' · ');
+}
+
+function sourceLabel(source: string) {
+    if (source === 'defaults') return 'default-server.properties';
+    if (source.startsWith('world:')) return `world ${source.slice('world:'.length)}`;
+    return source;
+}
+
+export default function PresetsCard({ worldName, onApplied }: Props) {
+    const [presets, setPresets] = useState<PropertyPreset[]>([]);
+    const [worlds, setWorlds] = useState<string[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    // Create
+    const [newName, setNewName] = useState('');
+    const [newDescription, setNewDescription] = useState('');
+    const [newSource, setNewSource] = useState<string>(worldName);
+
+    // Edit: the preset whose keys are open, as text
+    const [editing, setEditing] = useState<string | null>(null);
+    const [editValues, setEditValues] = useState<Record<string, string>>({});
+
+    // Apply: preview the per-key changes first
+    const [applyPreset, setApplyPreset] = useState<string>('');
+    const [targets, setTargets] = useState<string[]>([worldName]);
+    const [preview, setPreview] = useState<PresetApplyResult[] | null>(null);
+    const [applied, setApplied] = useState<PresetApplyResult[] | null>(null);
+
+    const fetchPresets = useCallback(async () => {
+        try {
+            const res = await fetch('/api/presets', { cache: 'no-store' });
+            const data: ErrorBody & { presets?: PropertyPreset[] } = await res.json();
+            if (!res.ok || !data.presets) throw new Error(errorMessage(data, res.status));
+            setPresets(data.presets);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load presets');
+        }
+    }, []);
+
+    const fetchWorlds = useCallback(async () => {
+        try {
+            const res = await fetch('/api/worlds', { cache: 'no-store' });
+            const data: { worlds?: WorldInfo[] } = await res.json();
+            setWorlds((data.worlds ?? []).map((w) => w.name));
+        } catch {
+            setWorlds([]);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchPresets();
+        fetchWorlds();
+    }, [fetchPresets, fetchWorlds]);
+
+    // Follow the world selection
+    useEffect(() => {
+        setNewSource(worldName);
+        setTargets([worldName]);
+        setPreview(null);
+        setApplied(null);
+    }, [worldName]);
+
+    const createPreset = useCallback(async () => {
+        setBusy(true);
+        setError(null);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/presets', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: newName.trim(),
+                    description: newDescription,
+                    fromWorld: newSource === DEFAULTS_SOURCE ? undefined : newSource,
+                }),
+            });
+            const data: ErrorBody & { preset?: PropertyPreset } = await res.json();
+            if (!res.ok || !data.preset) throw new Error(errorMessage(data, res.status));
+            setNewName('');
+            setNewDescription('');
+            setMessage(`Created preset ${data.preset.name} with ${Object.keys(data.preset.properties).length} keys.`);
+            await fetchPresets();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to create preset');
+        } finally {
+            setBusy(false);
+        }
+    }, [newName, newDescription, newSource, fetchPresets]);
+
+    const deletePreset = useCallback(async (name: string) => {
+        if (!confirm(`Delete preset "${name}"?`)) return;
+        setError(null);
+        setMessage(null);
+        try {
+            const res = await fetch(`/api/presets?name=${encodeURIComponent(name)}`, { method: 'DELETE' });
+            if (!res.ok) throw new Error(errorMessage(await res.json().catch(() => ({})), res.status));
+            if (editing === name) setEditing(null);
+            if (applyPreset === name) setApplyPreset('');
+            await fetchPresets();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to delete preset');
+        }
+    }, [editing, applyPreset, fetchPresets]);
+
+    const startEditing = useCallback((preset: PropertyPreset) => {
+        setEditing((cur) => (cur === preset.name ? null : preset.name));
+        setEditValues(preset.properties);
+    }, []);
+
+    const saveEdit = useCallback(async () => {
+        if (!editing) return;
+        setBusy(true);
+        setError(null);
+        setMessage(null);
+        try {
+            const res = await fetch(`/api/presets?name=${encodeURIComponent(editing)}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ properties: editValues }),
+            });
+            const data: ErrorBody & { preset?: PropertyPreset } = await res.json();
+            if (!res.ok || !data.preset) throw new Error(errorMessage(data, res.status));
+            setEditValues(data.preset.properties);
+            setMessage(`Saved preset ${data.preset.name}.`);
+            await fetchPresets();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to save preset');
+        } finally {
+            setBusy(false);
+        }
+    }, [editing, editValues, fetchPresets]);
+
+    const runApply = useCallback(async (dryRun: boolean) => {
+        setBusy(true);
+        setError(null);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/presets/apply', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...authorHeaders() },
+                body: JSON.stringify({ preset: applyPreset, worlds: targets, dryRun }),
+            });
+            const data: ApplyResponse = await res.json();
+            if (!data.results) throw new Error(errorMessage(data, res.status));
+            if (dryRun) {
+                setPreview(data.results);
+                setApplied(null);
+            } else {
+                setApplied(data.results);
+                setPreview(null);
+                const done = data.results.filter((r) => r.applied).map((r) => r.world);
+                if (done.length) onApplied(done);
+                setMessage(done.length ? `Applied to ${done.join(', ')}. Restart running servers to pick it up.` : 'Nothing to change.');
+            }
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to apply preset');
+        } finally {
+            setBusy(false);
+        }
+    }, [applyPreset, targets, onApplied]);
+
+    const toggleTarget = (world: string) => {
+        setTargets((prev) => (prev.includes(world) ? prev.filter((w) => w !== world) : [...prev, world]));
+        setPreview(null);
+    };
+
+    const pendingChanges = preview?.reduce((n, r) => n + (r.error ? 0 : r.changes.length), 0) ?? 0;
+    const shown = applied ?? preview;
+
+    return (
+        <Card className="rounded-2xl">
+            <CardHeader>
+                <CardTitle>Presets</CardTitle>
+                <CardDescription>
+                    Named sets of server.properties values, saved in <code>presets/</code>, to apply to any number of worlds.
+                </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-6">
+                {error && (
+                    <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+                        {error}
+                    </div>
+                )}
+                {message && <p className="text-sm text-neutral-600">{message}</p>}
+
+                {/* Create */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                        <Label htmlFor="presetName">Name</Label>
+                        <Input id="presetName" placeholder="creative-build" value={newName} onChange={(e) => setNewName(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="presetDescription">Description</Label>
+                        <Input
+                            id="presetDescription"
+                            placeholder="Optional"
+                            value={newDescription}
+                            onChange={(e) => setNewDescription(e.target.value)}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label>Capture from</Label>
+                        <Select value={newSource} onValueChange={setNewSource}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={DEFAULTS_SOURCE}>default-server.properties</SelectItem>
+                                {worlds.map((w) => (
+                                    <SelectItem key={w} value={w}>
+                                        World {w}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+                <div className="flex items-center gap-3">
+                    <Button onClick={createPreset} disabled={busy || !newName.trim()}>
+                        Create preset
+                    </Button>
+                    <span className="text-xs text-neutral-500">
+                        World-specific keys (level-name, level-seed, ports, rcon.password) are left out.
+                    </span>
+                </div>
+
+                {/* List */}
+                {presets.length === 0 ? (
+                    <p className="text-sm text-neutral-500">No presets yet.</p>
+                ) : (
+                    <ul className="divide-y rounded-xl border">
+                        {presets.map((preset) => (
+                            <li key={preset.name} className="p-3 space-y-3">
+                                <div className="flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium">{preset.name}</p>
+                                        <p className="text-xs text-neutral-500 truncate">
+                                            {preset.description ? `${preset.description} · ` : ''}
+                                            {Object.keys(preset.properties).length} keys · from {sourceLabel(preset.source)}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button variant="outline" size="sm" onClick={() => startEditing(preset)}>
+                                            {editing === preset.name ? 'Close' : 'Edit'}
+                                        </Button>
+                                        <Button variant="outline" size="sm" onClick={() => deletePreset(preset.name)}>
+                                            Delete
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {editing === preset.name && (
+                                    <div className="space-y-2">
+                                        {Object.entries(editValues).map(([key, value]) => (
+                                            <div key={key} className="flex items-center gap-2">
+                                                <span className="w-64 shrink-0 truncate font-mono text-xs">{key}</span>
+                                                <Input
+                                                    value={value}
+                                                    onChange={(e) => setEditValues((prev) => ({ ...prev, [key]: e.target.value }))}
+                                                />
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        setEditValues((prev) => {
+                                                            const next = { ...prev };
+                                                            delete next[key];
+                                                            return next;
+                                                        })
+                                                    }
+                                                >
+                                                    Remove
+                                                </Button>
+                                            </div>
+                                        ))}
+                                        <Button size="sm" onClick={saveEdit} disabled={busy}>
+                                            Save preset
+                                        </Button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <Separator />
+
+                {/* Apply */}
+                <div className="space-y-3">
+                    <h3 className="text-base font-semibold">Apply a preset</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                            <Label>Preset</Label>
+                            <Select
+                                value={applyPreset}
+                                onValueChange={(v) => {
+                                    setApplyPreset(v);
+                                    setPreview(null);
+                                    setApplied(null);
+                                }}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select a preset" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {presets.map((p) => (
+                                        <SelectItem key={p.name} value={p.name}>
+                                            {p.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label>Worlds</Label>
+                            <div className="flex flex-wrap gap-x-4 gap-y-1 pt-1">
+                                {worlds.map((w) => (
+                                    <label key={w} className="flex items-center gap-1.5 text-sm">
+                                        <input type="checkbox" checked={targets.includes(w)} onChange={() => toggleTarget(w)} />
+                                        {w}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                        <Button variant="outline" onClick={() => runApply(true)} disabled={busy || !applyPreset || targets.length === 0}>
+                            Preview changes
+                        </Button>
+                        <Button onClick={() => runApply(false)} disabled={busy || !preview || pendingChanges === 0}>
+                            Apply {pendingChanges} change{pendingChanges === 1 ? '' : 's'}
+                        </Button>
+                    </div>
+
+                    {shown && (
+                        <div className="space-y-3">
+                            {shown.map((r) => (
+                                <div key={r.world} className="rounded-xl border p-3 space-y-2">
+                                    <p className="text-sm font-medium">
+                                        {r.world}
+                                        <span className="ml-2 text-xs font-normal text-neutral-500">
+                                            {r.error
+                                                ? r.error
+                                                : r.applied
+                                                    ? `applied ${r.changes.length} change${r.changes.length === 1 ? '' : 's'}`
+                                                    : r.changes.length === 0
+                                                        ? 'already matches'
+                                                        : `${r.changes.length} change${r.changes.length === 1 ? '' : 's'}`}
+                                        </span>
+                                    </p>
+                                    {r.fieldErrors && (
+                                        <p className="text-xs text-red-600">
+                                            {Object.entries(r.fieldErrors).map(([k, v]) => `${k}: ${v.join(', ')}`).join(' · ')}
+                                        </p>
+                                    )}
+                                    {r.changes.length > 0 && (
+                                        <table className="w-full text-xs">
+                                            <tbody>
+                                                {r.changes.map((c) => (
+                                                    <tr key={c.key} className="align-top">
+                                                        <td className="py-0.5 pr-3 font-mono">{c.key}</td>
+                                                        <td className="py-0.5 pr-3 text-red-700 line-through">
+                                                            {c.from === null ? <span className="no-underline italic text-neutral-400">unset</span> : c.from || '(empty)'}
+                                                        </td>
+                                                        <td className="py-0.5 text-green-700">{c.to || '(empty)'}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
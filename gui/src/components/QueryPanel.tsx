@@ -0,0 +1,124 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ServerQuery } from '@/lib/types';
+import { authorHeaders } from '@/lib/author';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+type Props = {
+    worldName: string;
+    running: boolean;
+};
+
+type QueryResponse = {
+    enabled: boolean;
+    port: number;
+    running: boolean;
+    query: ServerQuery | null;
+    error: string | null;
+};
+
+export default function QueryPanel({ worldName, running }: Props) {
+    const [data, setData] = useState<QueryResponse | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [restartRequired, setRestartRequired] = useState(false);
+
+    const fetchQuery = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/server/query?worldName=${encodeURIComponent(worldName)}`, { cache: 'no-store' });
+            if (!res.ok) throw new Error(await res.text());
+            setData(await res.json());
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to query server');
+        }
+    }, [worldName]);
+
+    useEffect(() => {
+        setError(null);
+        setRestartRequired(false);
+        fetchQuery();
+    }, [fetchQuery, running]);
+
+    // The player list changes all the time; follow it while there is something to ask
+    useEffect(() => {
+        if (!running || !data?.enabled) return;
+        const t = setInterval(fetchQuery, 15_000);
+        return () => clearInterval(t);
+    }, [running, data?.enabled, fetchQuery]);
+
+    const setEnabled = async (enabled: boolean) => {
+        setSaving(true);
+        setError(null);
+        try {
+            const res = await fetch('/api/server/query', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...authorHeaders() },
+                body: JSON.stringify({ worldName, enabled }),
+            });
+            if (!res.ok) throw new Error(await res.text());
+            const body: { restartRequired?: boolean } = await res.json();
+            setRestartRequired(Boolean(body.restartRequired));
+            await fetchQuery();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to update enable-query');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const q = data?.query;
+
+    return (
+        <div className="rounded-xl border px-4 py-3 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+                <div>
+                    <Label htmlFor="queryEnabled">Full player list (Query)</Label>
+                    <p className="text-xs text-neutral-500">
+                        Sets <code>enable-query</code> for this world; UDP port {data?.port ?? '…'}.
+                    </p>
+                </div>
+                <Switch
+                    id="queryEnabled"
+                    checked={Boolean(data?.enabled)}
+                    onCheckedChange={setEnabled}
+                    disabled={!data || saving}
+                />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {restartRequired && (
+                <p className="text-xs text-amber-700">Restart the server for the change to take effect.</p>
+            )}
+            {data?.enabled && running && !q && data.error && !restartRequired && (
+                <p className="text-xs text-neutral-500">No reply yet: {data.error}</p>
+            )}
+
+            {q && (
+                <div className="space-y-2 text-sm">
+                    <p className="text-neutral-700">
+                        {q.gameType} · map <span className="font-medium">{q.map}</span> · {q.numPlayers} / {q.maxPlayers} players
+                    </p>
+                    {q.plugins.server && (
+                        <p className="text-xs text-neutral-500">
+                            {q.plugins.server}
+                            {q.plugins.list.length > 0 && `: ${q.plugins.list.join(', ')}`}
+                        </p>
+                    )}
+                    {q.players.length === 0 ? (
+                        <p className="text-xs text-neutral-500">Nobody online.</p>
+                    ) : (
+                        <ul className="flex flex-wrap gap-2">
+                            {q.players.map((name) => (
+                                <li key={name} className="rounded-full bg-neutral-100 px-2 py-0.5 text-xs text-neutral-700">
+                                    {name}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { ServerResources } from '@/lib/types';
+import { formatBytes, formatDuration } from '@/lib/format';
+
+type Props = {
+    resources: ServerResources;
+};
+
+// RSS also counts metaspace, thread stacks and GC overhead, so it nears -Xmx before the heap is really full
+const MEMORY_WARN = 0.9;
+
+function Gauge({ label, value, fraction, warn }: { label: string; value: string; fraction: number | null; warn?: boolean }) {
+    const pct = fraction === null ? 0 : Math.min(100, Math.max(0, fraction * 100));
+    return (
+        <div className="space-y-1">
+            <div className="flex items-baseline justify-between gap-2 text-xs">
+                <span className="text-neutral-500">{label}</span>
+                <span className="font-medium text-neutral-700">{value}</span>
+            </div>
+            <div className="h-2 rounded-full bg-neutral-100 overflow-hidden">
+                <div
+                    className={`h-full rounded-full ${warn ? 'bg-amber-500' : 'bg-neutral-700'}`}
+                    style={{ width: `${pct}%` }}
+                />
+            </div>
+        </div>
+    );
+}
+
+export default function ResourceGauges({ resources: r }: Props) {
+    const memFraction = r.maxHeapBytes ? r.rssBytes / r.maxHeapBytes : null;
+    const nearLimit = memFraction !== null && memFraction >= MEMORY_WARN;
+    const cpuFraction = r.cpuPercent === null ? null : r.cpuPercent / (r.cpuCount * 100);
+
+    return (
+        <div className="rounded-xl border px-4 py-3 space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <Gauge
+                    label="Memory (RSS vs -Xmx)"
+                    value={
+                        r.maxHeapBytes
+                            ? `${formatBytes(r.rssBytes)} / ${formatBytes(r.maxHeapBytes)}`
+                            : formatBytes(r.rssBytes)
+                    }
+                    fraction={memFraction}
+                    warn={nearLimit}
+                />
+                <Gauge
+                    label={`CPU (${r.cpuCount} ${r.cpuCount === 1 ? 'core' : 'cores'})`}
+                    value={r.cpuPercent === null ? '–' : `${r.cpuPercent}%`}
+                    fraction={cpuFraction}
+                />
+            </div>
+            <p className="text-xs text-neutral-500">
+                Up {r.uptimeMs === null ? '?' : formatDuration(r.uptimeMs)}
+                {' · '}{r.threads} threads
+                {r.openFds !== null && ` · ${r.openFds} open files`}
+            </p>
+            {nearLimit && (
+                <p className="text-xs text-amber-700">
+                    Close to its memory limit. Consider a larger max memory (Xmx) in the launch profile.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -1,7 +1,11 @@
 'use client';
 
 import { Dispatch, SetStateAction, useCallback, useEffect, useMemo, useState } from 'react';
-import { ServerProperties, Difficulty, isDifficulty } from '@/lib/types';
+import { ServerProperties } from '@/lib/types';
+import { parsePropertiesText, toPropertyString } from '@/lib/properties';
+import { validateServerProps } from '@/lib/serverProps';
+import { PROPERTY_SECTIONS, PropertyField, isKnownProperty } from '@/lib/serverPropsFields';
+import { authorHeaders } from '@/lib/author';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -22,46 +26,88 @@ type Props = {
     worldName: string;
     currentServerProperties: ServerProperties | null;
     setCurrentServerProperties: Dispatch<SetStateAction<ServerProperties | null>>;
+    refreshToken?: number;      // bump to reload after the files changed elsewhere (e.g. a preset was applied)
 };
 
-// ---- Difficulty options (matches your union) ----
-const DIFFICULTY_OPTIONS = ['peaceful', 'easy', 'normal', 'hard'] as const;
+// Values as the strings they are in the file
+type Draft = Record<string, string>;
 
-// ---- Coercion helpers ----
-const toBool = (v: unknown) => {
-    if (typeof v === 'boolean') return v;
-    if (typeof v === 'number') return v !== 0;
-    if (typeof v === 'string') {
-        const s = v.trim().toLowerCase();
-        return s === 'true' || s === '1' || s === 'yes' || s === 'on';
-    }
-    return false;
-};
-const toInt = (v: unknown, fallback: number) => {
-    if (typeof v === 'number' && Number.isFinite(v)) return Math.trunc(v);
-    if (typeof v === 'string' && v.trim() !== '') {
-        const n = Number(v);
-        return Number.isFinite(n) ? Math.trunc(n) : fallback;
+function toDraft(sp: ServerProperties): Draft {
+    return Object.fromEntries(Object.entries(sp).map(([k, v]) => [k, toPropertyString(v)]));
+}
+
+// What to send: changed and added keys with their value, removed keys as null
+function diffDraft(saved: Draft, draft: Draft): Record<string, string | null> {
+    const patch: Record<string, string | null> = {};
+    for (const [k, v] of Object.entries(draft)) if (saved[k] !== v) patch[k] = v;
+    for (const k of Object.keys(saved)) if (!Object.hasOwn(draft, k)) patch[k] = null;
+    return patch;
+}
+
+// Keys the server would misread: separators and whitespace
+const isValidNewKey = (key: string) => /^[^\s=:#!]+$/.test(key);
+
+function PropertyInput({ field, value, onChange }: { field: PropertyField; value: string; onChange: (v: string) => void }) {
+    const { control } = field;
+    const id = `prop-${field.key}`;
+    switch (control.type) {
+        case 'boolean':
+            return (
+                <Switch
+                    id={id}
+                    checked={value.trim().toLowerCase() === 'true'}
+                    onCheckedChange={(checked) => onChange(checked ? 'true' : 'false')}
+                />
+            );
+        case 'number':
+            return <Input id={id} type="number" min={control.min} max={control.max} value={value} onChange={(e) => onChange(e.target.value)} />;
+        case 'enum': {
+            // Keep a value the schema doesn't list (e.g. a legacy "1") selectable rather than blank
+            const options = !value || control.options.includes(value) ? control.options : [...control.options, value];
+            return (
+                <Select value={value} onValueChange={onChange}>
+                    <SelectTrigger id={id}>
+                        <SelectValue placeholder="Select…" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {options.map((opt) => (
+                            <SelectItem key={opt} value={opt}>
+                                {opt}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            );
+        }
+        default:
+            return (
+                <Input
+                    id={id}
+                    type={control.secret ? 'password' : 'text'}
+                    autoComplete={control.secret ? 'new-password' : undefined}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                />
+            );
     }
-    return fallback;
-};
+}
 
 export default function ServerPropertiesCard({
                                                  worldName,
                                                  currentServerProperties,
                                                  setCurrentServerProperties,
+                                                 refreshToken,
                                              }: Props) {
     const [isLoading, setIsLoading] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    // Editable fields (subset commonly tweaked from UI)
-    const [simulationDistance, setSimulationDistance] = useState<number>(10);
-    const [viewDistance, setViewDistance] = useState<number>(10);
-    const [difficulty, setDifficulty] = useState<Difficulty>('easy');
-    const [pvp, setPvp] = useState<boolean>(true);
-    const [whitelistEnabled, setWhitelistEnabled] = useState<boolean>(false);
-    const [enforceWhitelist, setEnforceWhitelist] = useState<boolean>(false);
+    // Every key of server.properties, edited as text; defaults from the bundled template
+    const [draft, setDraft] = useState<Draft>({});
+    const [defaults, setDefaults] = useState<Draft | null>(null);
+    const [filter, setFilter] = useState('');
+    const [newKey, setNewKey] = useState('');
+    const [newValue, setNewValue] = useState('');
 
     // Whitelist
     const [whitelist, setWhitelist] = useState<WhitelistEntry[]>([]);
@@ -103,62 +149,72 @@ export default function ServerPropertiesCard({
         }
     }, [worldName]);
 
-    // Initial load
+    // Initial load, and again whenever refreshToken is bumped
     useEffect(() => {
         fetchServerProperties();
         fetchWhitelist();
-    }, [fetchServerProperties, fetchWhitelist]);
+    }, [fetchServerProperties, fetchWhitelist, refreshToken]);
 
-    // Hydrate edit fields from parent state
+    // The template new worlds are seeded from; without it there is just no reset button
     useEffect(() => {
-        const sp = currentServerProperties;
-        if (!sp) return;
+        const loadDefaults = async () => {
+            try {
+                const res = await fetch('/default-server.properties');
+                if (res.ok) setDefaults(parsePropertiesText(await res.text()));
+            } catch { /* keep null */ }
+        };
+        loadDefaults();
+    }, []);
 
-        setSimulationDistance(toInt(sp['simulation-distance'], 10));
-        setViewDistance(toInt(sp['view-distance'], 10));
+    const saved = useMemo(() => (currentServerProperties ? toDraft(currentServerProperties) : null), [currentServerProperties]);
 
-        const diff = String(sp['difficulty'] ?? 'easy').toLowerCase();
-        setDifficulty(isDifficulty(diff) ? diff : 'easy');
+    // Hydrate the draft from parent state
+    useEffect(() => {
+        if (saved) setDraft(saved);
+    }, [saved]);
 
-        setPvp(toBool(sp['pvp']));
-        setWhitelistEnabled(toBool(sp['white-list']));
-        setEnforceWhitelist(toBool(sp['enforce-whitelist']));
-    }, [currentServerProperties]);
+    const patch = useMemo(() => (saved ? diffDraft(saved, draft) : {}), [saved, draft]);
+    const changedKeys = Object.keys(patch);
+    const hasPropChanges = changedKeys.length > 0;
 
-    const hasPropChanges = useMemo(() => {
-        const sp = currentServerProperties;
-        if (!sp) return false;
-        const curDiff = isDifficulty(String(sp['difficulty'])) ? (sp['difficulty'] as Difficulty) : 'easy';
+    // Checked as the server will check them; only changed keys hold up saving
+    const fieldErrors = useMemo(() => validateServerProps(draft).fieldErrors, [draft]);
+    const hasBlockingErrors = changedKeys.some((k) => fieldErrors[k]);
 
-        return (
-            toInt(sp['simulation-distance'], 10) !== simulationDistance ||
-            toInt(sp['view-distance'], 10) !== viewDistance ||
-            curDiff !== difficulty ||
-            toBool(sp['pvp']) !== pvp ||
-            toBool(sp['white-list']) !== whitelistEnabled ||
-            toBool(sp['enforce-whitelist']) !== enforceWhitelist
-        );
-    }, [currentServerProperties, simulationDistance, viewDistance, difficulty, pvp, whitelistEnabled, enforceWhitelist]);
+    const setValue = useCallback((key: string, value: string) => {
+        setDraft((prev) => ({ ...prev, [key]: value }));
+    }, []);
+
+    const removeKey = useCallback((key: string) => {
+        setDraft((prev) => {
+            const next = { ...prev };
+            delete next[key];
+            return next;
+        });
+    }, []);
+
+    const addKey = useCallback(() => {
+        const key = newKey.trim();
+        if (!isValidNewKey(key) || Object.hasOwn(draft, key)) return;
+        setValue(key, newValue);
+        setNewKey('');
+        setNewValue('');
+    }, [newKey, newValue, draft, setValue]);
 
     const saveProps = useCallback(async () => {
         setIsSaving(true);
         setError(null);
         try {
-            const patch: Partial<ServerProperties> = {
-                'simulation-distance': simulationDistance,
-                'view-distance': viewDistance,
-                difficulty,
-                pvp,
-                'white-list': whitelistEnabled,
-                'enforce-whitelist': enforceWhitelist,
-            };
-
             const res = await fetch(`/api/server-properties?world=${encodeURIComponent(worldName)}`, {
                 method: 'PUT',
-                headers: { 'Content-Type': 'application/json' },
+                headers: { 'Content-Type': 'application/json', ...authorHeaders() },
                 body: JSON.stringify(patch),
             });
-            if (!res.ok) throw new Error(`Save failed: HTTP ${res.status}`);
+            if (!res.ok) {
+                const data: { error?: string; fieldErrors?: Record<string, string[]> } = await res.json().catch(() => ({}));
+                const details = Object.entries(data.fieldErrors ?? {}).map(([k, v]) => `${k}: ${v.join(', ')}`);
+                throw new Error([data.error || `Save failed: HTTP ${res.status}`, ...details].join(' · '));
+            }
 
             // Refresh and keep parent in sync
             await fetchServerProperties();
@@ -167,7 +223,49 @@ export default function ServerPropertiesCard({
         } finally {
             setIsSaving(false);
         }
-    }, [worldName, simulationDistance, viewDistance, difficulty, pvp, whitelistEnabled, enforceWhitelist, fetchServerProperties]);
+    }, [worldName, patch, fetchServerProperties]);
+
+    const query = filter.trim().toLowerCase();
+    const sections = PROPERTY_SECTIONS.map((section) => ({
+        ...section,
+        fields: section.fields.filter((f) => !query || f.key.includes(query) || f.help.toLowerCase().includes(query)),
+    })).filter((section) => section.fields.length > 0);
+    const unknownKeys = Object.keys(draft)
+        .filter((k) => !isKnownProperty(k) && (!query || k.toLowerCase().includes(query)))
+        .sort();
+    const newKeyTrimmed = newKey.trim();
+    const canAddKey = isValidNewKey(newKeyTrimmed) && !Object.hasOwn(draft, newKeyTrimmed);
+
+    const renderField = (field: PropertyField) => {
+        const value = draft[field.key];
+        const def = defaults?.[field.key];
+        const canReset = def !== undefined && value !== undefined && value !== def;
+        const errors = fieldErrors[field.key];
+        return (
+            <div key={field.key} className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor={`prop-${field.key}`} className="font-mono text-xs">
+                        {field.key}
+                        {Object.hasOwn(patch, field.key) && <span className="text-amber-600"> •</span>}
+                    </Label>
+                    {canReset && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            title={`Default: ${def === '' ? '(empty)' : def}`}
+                            onClick={() => setValue(field.key, def)}
+                        >
+                            Reset
+                        </Button>
+                    )}
+                </div>
+                <PropertyInput field={field} value={value ?? ''} onChange={(v) => setValue(field.key, v)} />
+                {field.help && <p className="text-xs text-neutral-500">{field.help}</p>}
+                {errors && <p className="text-xs text-red-600">{errors.join(', ')}</p>}
+            </div>
+        );
+    };
 
     // Whitelist ops
     const addWhitelist = useCallback(() => {
@@ -191,7 +289,7 @@ export default function ServerPropertiesCard({
         try {
             const res = await fetch(`/api/whitelist?world=${encodeURIComponent(worldName)}`, {
                 method: 'PUT',
-                headers: { 'Content-Type': 'application/json' },
+                headers: { 'Content-Type': 'application/json', ...authorHeaders() },
                 body: JSON.stringify({ whitelist }),
             });
             if (!res.ok) throw new Error(`Saving whitelist failed: HTTP ${res.status}`);
@@ -206,7 +304,7 @@ export default function ServerPropertiesCard({
             <CardHeader>
                 <CardTitle>Server Settings</CardTitle>
                 <CardDescription>
-                    Adjust common options and manage the whitelist for <span className="font-medium">{worldName}</span>.
+                    Every setting in server.properties and the whitelist for <span className="font-medium">{worldName}</span>.
                 </CardDescription>
             </CardHeader>
 
@@ -217,121 +315,91 @@ export default function ServerPropertiesCard({
                     </div>
                 )}
 
-                {/* Basic settings */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    {/* Simulation Distance */}
-                    <div className="space-y-2">
-                        <Label htmlFor="simDist">Simulation Distance (chunks)</Label>
-                        <Input
-                            id="simDist"
-                            type="number"
-                            min={3}
-                            max={32}
-                            value={simulationDistance}
-                            onChange={(e) => setSimulationDistance(toInt(e.target.value, simulationDistance))}
-                        />
-                        <p className="text-xs text-neutral-500">
-                            How far entities/ticks simulate around players. Higher = more CPU.
-                        </p>
-                    </div>
-
-                    {/* View Distance */}
-                    <div className="space-y-2">
-                        <Label htmlFor="viewDist">View Distance (chunks)</Label>
-                        <Input
-                            id="viewDist"
-                            type="number"
-                            min={2}
-                            max={32}
-                            value={viewDistance}
-                            onChange={(e) => setViewDistance(toInt(e.target.value, viewDistance))}
-                        />
-                        <p className="text-xs text-neutral-500">
-                            How far the server sends chunks to clients. Higher = more bandwidth/CPU.
-                        </p>
-                    </div>
+                <Input placeholder="Filter settings…" value={filter} onChange={(e) => setFilter(e.target.value)} />
 
-                    {/* Difficulty */}
-                    <div className="space-y-2">
-                        <Label>Difficulty</Label>
-                        <Select
-                            value={difficulty}
-                            onValueChange={(v) => {
-                                if (isDifficulty(v)) setDifficulty(v);
-                            }}
+                {/* Known keys by section; all open while filtering */}
+                <div className="space-y-3">
+                    {sections.map((section, i) => (
+                        <details
+                            key={`${section.title}:${query ? 'filtered' : ''}`}
+                            open={!!query || i === 0}
+                            className="rounded-xl border px-4 py-3"
                         >
-                            <SelectTrigger>
-                                <SelectValue placeholder="Select difficulty" />
-                            </SelectTrigger>
-                            <SelectContent>
-                                {DIFFICULTY_OPTIONS.map((opt) => (
-                                    <SelectItem key={opt} value={opt}>
-                                        {opt[0].toUpperCase() + opt.slice(1)}
-                                    </SelectItem>
-                                ))}
-                            </SelectContent>
-                        </Select>
-                    </div>
-
-                    {/* PvP */}
-                    <div className="space-y-2">
-                        <Label htmlFor="pvpSwitch">PvP</Label>
-                        <div className="flex items-center gap-3">
-                            <Switch id="pvpSwitch" checked={pvp} onCheckedChange={setPvp} />
-                            <span className="text-sm text-neutral-700">Enable player‑vs‑player combat</span>
-                        </div>
-                    </div>
-                </div>
-
-                {/* Whitelist Settings */}
-                <div className="space-y-4">
-                    <div>
-                        <h3 className="text-base font-semibold">Whitelist Settings</h3>
-                        <p className="text-sm text-neutral-500">
-                            Control who can join the server and how strictly the list is enforced.
-                        </p>
-                    </div>
-
-                    <div className="grid grid-cols-1 gap-4">
-                        <div className="space-y-2">
-                            <Label htmlFor="wlSwitch">Whitelist</Label>
-                            <div className="flex items-center gap-3">
-                                <Switch
-                                    id="wlSwitch"
-                                    checked={whitelistEnabled}
-                                    onCheckedChange={setWhitelistEnabled}
-                                />
-                                <span className="text-sm text-neutral-700">
-                  If enabled, only players on the whitelist can join.
-                </span>
-                            </div>
-                        </div>
-
-                        <div className="space-y-2">
-                            <Label htmlFor="enforceWlSwitch">Enforce Whitelist</Label>
-                            <div className="flex items-center gap-3">
-                                <Switch
-                                    id="enforceWlSwitch"
-                                    checked={enforceWhitelist}
-                                    onCheckedChange={setEnforceWhitelist}
-                                />
-                                <span className="text-sm text-neutral-700">
-                  If enabled, removes non‑whitelisted players online and blocks new joins.
-                </span>
+                            <summary className="cursor-pointer text-base font-semibold">
+                                {section.title}
+                                {section.fields.some((f) => Object.hasOwn(patch, f.key)) && (
+                                    <span className="ml-2 text-xs font-normal text-amber-600">changed</span>
+                                )}
+                            </summary>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 pt-4">{section.fields.map(renderField)}</div>
+                        </details>
+                    ))}
+
+                    {/* Keys the schema doesn't know: newer versions, mods */}
+                    <details key={`other:${query ? 'filtered' : ''}`} open={!!query && unknownKeys.length > 0} className="rounded-xl border px-4 py-3">
+                        <summary className="cursor-pointer text-base font-semibold">
+                            Other keys
+                            <span className="ml-2 text-xs font-normal text-neutral-500">{unknownKeys.length}</span>
+                        </summary>
+                        <div className="space-y-3 pt-4">
+                            {unknownKeys.length === 0 && <p className="text-sm text-neutral-500">No other keys.</p>}
+                            {unknownKeys.map((key) => (
+                                <div key={key} className="flex items-end gap-2">
+                                    <div className="flex-1 space-y-1">
+                                        <Label htmlFor={`prop-${key}`} className="font-mono text-xs">
+                                            {key}
+                                            {Object.hasOwn(patch, key) && <span className="text-amber-600"> •</span>}
+                                        </Label>
+                                        <Input id={`prop-${key}`} value={draft[key]} onChange={(e) => setValue(key, e.target.value)} />
+                                        {fieldErrors[key] && <p className="text-xs text-red-600">{fieldErrors[key].join(', ')}</p>}
+                                    </div>
+                                    <Button variant="outline" onClick={() => removeKey(key)}>
+                                        Remove
+                                    </Button>
+                                </div>
+                            ))}
+                            <div className="flex items-end gap-2">
+                                <div className="flex-1 space-y-1">
+                                    <Label htmlFor="newPropKey">New key</Label>
+                                    <Input id="newPropKey" placeholder="some-mod.setting" value={newKey} onChange={(e) => setNewKey(e.target.value)} />
+                                </div>
+                                <div className="flex-1 space-y-1">
+                                    <Label htmlFor="newPropValue">Value</Label>
+                                    <Input id="newPropValue" value={newValue} onChange={(e) => setNewValue(e.target.value)} />
+                                </div>
+                                <Button type="button" onClick={addKey} disabled={!canAddKey}>
+                                    Add
+                                </Button>
                             </div>
+                            {newKeyTrimmed && !canAddKey && (
+                                <p className="text-xs text-red-600">
+                                    {Object.hasOwn(draft, newKeyTrimmed)
+                                        ? 'That key is already set.'
+                                        : 'Keys cannot contain spaces or = : # !'}
+                                </p>
+                            )}
                         </div>
-                    </div>
+                    </details>
                 </div>
 
                 {/* Save / Refresh */}
                 <div className="flex items-center gap-3">
-                    <Button onClick={saveProps} disabled={!hasPropChanges || isSaving || isLoading}>
+                    <Button onClick={saveProps} disabled={!hasPropChanges || hasBlockingErrors || isSaving || isLoading}>
                         {isSaving ? 'Saving…' : 'Save changes'}
                     </Button>
+                    <Button variant="outline" onClick={() => saved && setDraft(saved)} disabled={!hasPropChanges || isSaving}>
+                        Discard
+                    </Button>
                     <Button variant="outline" onClick={fetchServerProperties} disabled={isLoading}>
                         {isLoading ? 'Refreshing…' : 'Refresh'}
                     </Button>
-                    {hasPropChanges && <span className="text-xs text-neutral-500">Unsaved changes</span>}
+                    {hasPropChanges && (
+                        <span className={`text-xs ${hasBlockingErrors ? 'text-red-600' : 'text-neutral-500'}`}>
+                            {hasBlockingErrors
+                                ? 'Fix the highlighted values to save'
+                                : `${changedKeys.length} unsaved change${changedKeys.length === 1 ? '' : 's'}`}
+                        </span>
+                    )}
                 </div>
 
                 <Separator />
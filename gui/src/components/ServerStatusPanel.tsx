@@ -0,0 +1,47 @@
+'use client';
+
+import { ServerStatus } from '@/lib/types';
+
+type Props = {
+    status: ServerStatus;
+};
+
+export default function ServerStatusPanel({ status }: Props) {
+    const { ping } = status;
+
+    if (!ping) {
+        return (
+            <div className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                Process {status.pid} is up but not answering on port {status.port ?? '?'}
+                {status.state === 'stopping' ? ' (shutting down).' : ' yet. It may still be starting, or it may be hung.'}
+                {status.pingError && <span className="block text-xs text-amber-700">{status.pingError}</span>}
+            </div>
+        );
+    }
+
+    return (
+        <div className="rounded-xl border px-4 py-3 space-y-2">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <p className="text-sm font-medium whitespace-pre-line">{ping.motd || 'A Minecraft Server'}</p>
+                <p className="text-xs text-neutral-500">
+                    {ping.version.name || 'unknown version'}
+                    {ping.version.protocol !== null && ` (protocol ${ping.version.protocol})`}
+                    {' · '}port {status.port}
+                    {ping.latencyMs !== null && ` · ${ping.latencyMs} ms`}
+                </p>
+            </div>
+            <p className="text-sm text-neutral-700">
+                Players: <span className="font-medium">{ping.players.online}</span> / {ping.players.max}
+            </p>
+            {ping.players.sample.length > 0 && (
+                <ul className="flex flex-wrap gap-2">
+                    {ping.players.sample.map((p) => (
+                        <li key={p.id || p.name} className="rounded-full bg-neutral-100 px-2 py-0.5 text-xs text-neutral-700">
+                            {p.name}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
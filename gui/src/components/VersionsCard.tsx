@@ -0,0 +1,196 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { JavaRuntime, MinecraftVersion, WorldInfo } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DownloadProgressNote from '@/components/DownloadProgressNote';
+
+type Props = {
+    world: WorldInfo;
+    onPinned?: (world: WorldInfo) => void;
+};
+
+type JavaResponse = {
+    required?: number | null;
+    selected?: JavaRuntime | null;
+    error?: string;
+};
+
+type VersionsResponse = {
+    latest?: { release?: string; snapshot?: string };
+    versions?: MinecraftVersion[];
+    error?: string;
+};
+
+export default function VersionsCard({ world, onPinned }: Props) {
+    const [versions, setVersions] = useState<MinecraftVersion[]>([]);
+    const [latest, setLatest] = useState<VersionsResponse['latest']>({});
+    const [snapshots, setSnapshots] = useState(false);
+    const [selected, setSelected] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [busy, setBusy] = useState<'download' | 'pin' | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [java, setJava] = useState<JavaResponse | null>(null);
+
+    const fetchVersions = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/versions?snapshots=${snapshots}`, { cache: 'no-store' });
+            const data: VersionsResponse = await res.json();
+            if (!res.ok || !data.versions) throw new Error(data.error || `HTTP ${res.status}`);
+            setVersions(data.versions);
+            setLatest(data.latest ?? {});
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load versions');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [snapshots]);
+
+    useEffect(() => {
+        fetchVersions();
+    }, [fetchVersions]);
+
+    useEffect(() => {
+        setSelected(world.version ?? '');
+        setMessage(null);
+    }, [world.name, world.version]);
+
+    // Which Java the pinned version would start with
+    useEffect(() => {
+        let cancelled = false;
+        fetch(`/api/java?world=${encodeURIComponent(world.name)}`, { cache: 'no-store' })
+            .then((res) => res.json())
+            .then((data: JavaResponse) => !cancelled && setJava(data))
+            .catch(() => !cancelled && setJava(null));
+        return () => {
+            cancelled = true;
+        };
+    }, [world.name, world.version]);
+
+    const selectedVersion = versions.find((v) => v.id === selected);
+
+    const download = async () => {
+        setBusy('download');
+        setError(null);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/versions', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ version: selected }),
+            });
+            const data: { error?: string } = await res.json();
+            if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+            setMessage(`Downloaded ${selected}`);
+            await fetchVersions();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to download version');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const pin = async (version: string | null) => {
+        setBusy('pin');
+        setError(null);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/versions/pin', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ worldName: world.name, version }),
+            });
+            const data: { world?: WorldInfo; error?: string } = await res.json();
+            if (!res.ok || !data.world) throw new Error(data.error || `HTTP ${res.status}`);
+            setMessage(version ? `Pinned ${world.name} to ${version}` : `Unpinned ${world.name}`);
+            onPinned?.(data.world);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to pin version');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <Card className="rounded-2xl">
+            <CardHeader>
+                <CardTitle>Version</CardTitle>
+                <CardDescription>
+                    {world.version
+                        ? <>Pinned to <span className="font-medium">{world.version}</span>.</>
+                        : 'Not pinned; starts the newest jar in the repo root.'}
+                    {world.running && ' Changes apply on the next start.'}
+                </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+                {error && (
+                    <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+                        {error}
+                    </div>
+                )}
+                {message && <p className="text-sm text-neutral-600">{message}</p>}
+                {java && !java.error && (
+                    <p className={`text-xs ${java.selected ? 'text-neutral-500' : 'text-red-600'}`}>
+                        {java.selected
+                            ? `Java ${java.selected.version} (${java.selected.path})`
+                            : `No suitable Java found${java.required ? `; this version needs Java ${java.required}` : ''}.`}
+                        {java.selected && java.required ? ` · needs Java ${java.required}` : ''}
+                    </p>
+                )}
+
+                <div className="flex flex-wrap items-end gap-3">
+                    <div className="space-y-2 w-56">
+                        <Label htmlFor="versionSelect">Minecraft version</Label>
+                        <Select value={selected} onValueChange={setSelected} disabled={isLoading}>
+                            <SelectTrigger id="versionSelect">
+                                <SelectValue placeholder={isLoading ? 'Loading…' : 'Select a version'} />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {versions.map((v) => (
+                                    <SelectItem key={v.id} value={v.id}>
+                                        {v.id}
+                                        {v.id === latest?.release && ' (latest)'}
+                                        {v.type === 'snapshot' && ' · snapshot'}
+                                        {v.installed && ' · downloaded'}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="flex items-center gap-2 pb-2">
+                        <Switch id="showSnapshots" checked={snapshots} onCheckedChange={setSnapshots} />
+                        <Label htmlFor="showSnapshots">Snapshots</Label>
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                    <Button
+                        variant="outline"
+                        onClick={download}
+                        disabled={!selected || busy !== null || selectedVersion?.installed}
+                    >
+                        {busy === 'download' ? 'Downloading…' : selectedVersion?.installed ? 'Downloaded' : 'Download'}
+                    </Button>
+                    <Button onClick={() => pin(selected)} disabled={!selected || busy !== null || selected === world.version}>
+                        {busy === 'pin' ? 'Saving…' : 'Pin to world'}
+                    </Button>
+                    {world.version && (
+                        <Button variant="outline" onClick={() => pin(null)} disabled={busy !== null}>
+                            Unpin
+                        </Button>
+                    )}
+                </div>
+
+                <DownloadProgressNote active={busy === 'download'} version={selected} />
+            </CardContent>
+        </Card>
+    );
+}
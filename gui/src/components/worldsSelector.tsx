@@ -10,17 +10,16 @@ import {
 import { Button } from '@/components/ui/button';
 import { Loader2, RotateCcw, AlertCircle } from 'lucide-react';
 import {useCallback, useEffect, useState} from "react";
-
-export interface World {
-    name: string;
-}
+import { WorldInfo } from '@/lib/types';
+import { formatBytes, formatRelativeTime } from '@/lib/format';
 
 type WorldsSelectorProps = {
-    value?: World | null;
-    onChange?: (world: World | null) => void;
+    value?: WorldInfo | null;
+    onChange?: (world: WorldInfo | null) => void;
     placeholder?: string;
     className?: string;   // forwarded to SelectTrigger
     disabled?: boolean;
+    refreshToken?: number; // bump to reload the list (e.g. after creating a world)
 };
 
 export function WorldsSelector({
@@ -29,8 +28,9 @@ export function WorldsSelector({
                                    placeholder = 'Select a world…',
                                    className,
                                    disabled,
+                                   refreshToken,
                                }: WorldsSelectorProps) {
-    const [worlds, setWorlds] = useState<World[]>([]);
+    const [worlds, setWorlds] = useState<WorldInfo[]>([]);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -40,7 +40,7 @@ export function WorldsSelector({
         try {
             const res = await fetch('/api/worlds', { cache: 'no-store' });
             if (!res.ok) throw new Error(`HTTP ${res.status}`);
-            const data = (await res.json()) as { worlds?: World[]; error?: string };
+            const data = (await res.json()) as { worlds?: WorldInfo[]; error?: string };
             if (!data.worlds) throw new Error(data.error || 'No worlds returned');
 
             const unique = Array.from(new Map(data.worlds.map(w => [w.name, w])).values());
@@ -57,7 +57,7 @@ export function WorldsSelector({
 
     useEffect(() => {
         fetchWorlds();
-    }, [fetchWorlds]);
+    }, [fetchWorlds, refreshToken]);
 
     const selectedName = value?.name ?? undefined;
     const handleChange = (newName: string) => {
@@ -70,7 +70,7 @@ export function WorldsSelector({
     return (
         <div className="space-y-2">
             <div className="flex items-center gap-2">
-                <div className="w-40">
+                <div className="w-72">
                     <Select value={selectedName} onValueChange={handleChange} disabled={disabled || loading || worlds.length === 0}>
                         <SelectTrigger className={`w-full ${className ?? ''}`}>
                             <SelectValue className="truncate" placeholder={loading ? 'Loading worlds…' : nothingToShow ? 'No worlds found' : placeholder} />
@@ -79,7 +79,16 @@ export function WorldsSelector({
                         <SelectContent className="w-[--radix-select-trigger-width]">
                             {worlds.map((w) => (
                                 <SelectItem key={w.name} value={w.name}>
-                                    {w.name}
+                                    <span
+                                        className={`h-2 w-2 shrink-0 rounded-full ${w.running ? 'bg-green-500' : 'bg-neutral-300'}`}
+                                        aria-label={w.running ? 'Running' : 'Stopped'}
+                                    />
+                                    <span className="truncate">{w.name}</span>
+                                    <span className="ml-1 text-xs text-neutral-500">
+                                        {!w.hasServerProperties
+                                            ? 'no server.properties'
+                                            : `${formatBytes(w.sizeBytes)} · ${formatRelativeTime(w.lastPlayed)}`}
+                                    </span>
                                 </SelectItem>
                             ))}
                         </SelectContent>
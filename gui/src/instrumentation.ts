@@ -0,0 +1,15 @@
+// Runs once when the Next.js server starts
+export async function register() {
+    // Background jobs need Node APIs (fs, child_process); skip the edge runtime
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        const { startBackupScheduler } = await import('@/lib/backupScheduler');
+        startBackupScheduler();
+        // Drop records whose process is gone (or whose pid now belongs to something else) before anything trusts them
+        const { reconcileProcessRecords } = await import('@/lib/serverProcess');
+        await reconcileProcessRecords();
+        const { startSupervisor } = await import('@/lib/supervisor');
+        startSupervisor();
+        const { startMetricsSampler } = await import('@/lib/metricsHistory');
+        startMetricsSampler();
+    }
+}
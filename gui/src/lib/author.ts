@@ -0,0 +1,27 @@
+// The name config changes are recorded under (see lib/configHistory). The GUI has no logins,
+// so it's whatever this browser was told; an authenticating proxy's user is the fallback.
+
+export const AUTHOR_HEADER = 'x-mc-author';
+
+const STORAGE_KEY = 'mc-author';
+
+export function getAuthor(): string {
+    try {
+        return localStorage.getItem(STORAGE_KEY) ?? '';
+    } catch {
+        return '';
+    }
+}
+
+export function setAuthor(name: string) {
+    try {
+        if (name.trim()) localStorage.setItem(STORAGE_KEY, name.trim());
+        else localStorage.removeItem(STORAGE_KEY);
+    } catch { /* private mode: not remembered */ }
+}
+
+/** Headers for requests that change config files; percent-encoded so any name survives. */
+export function authorHeaders(): Record<string, string> {
+    const name = getAuthor().trim();
+    return name ? { [AUTHOR_HEADER]: encodeURIComponent(name) } : {};
+}
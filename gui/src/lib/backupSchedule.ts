@@ -0,0 +1,80 @@
+import { z } from 'zod';
+
+const UNIT_SECONDS = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 } as const;
+
+/**
+ * "30m", "6h", "2d", "1w" → seconds; a bare number is seconds.
+ * Same units as run.sh's parse_interval_to_seconds. Null when unparsable.
+ */
+export function parseIntervalToSeconds(val: string): number | null {
+    const m = /^\s*(\d+)\s*([smhdw]?)\s*$/.exec(val);
+    if (!m) return null;
+    const n = Number.parseInt(m[1], 10);
+    const unit = m[2] as keyof typeof UNIT_SECONDS | '';
+    return unit ? n * UNIT_SECONDS[unit] : n;
+}
+
+export const backupScheduleSchema = z.object({
+    enabled: z.boolean().default(false),
+    interval: z
+        .string()
+        .trim()
+        .refine((v) => (parseIntervalToSeconds(v) ?? 0) >= 60, 'Use a number with s/m/h/d/w, at least 1 minute (e.g. 6h)')
+        .default('24h'),
+    // Only take scheduled backups while the server is up (nothing changes while it's stopped)
+    onlyWhileRunning: z.boolean().default(true),
+    // Broadcast in chat around hot backups
+    announce: z.boolean().default(false),
+    retention: z
+        .object({
+            keepLast: z.number().int().min(0).default(0),   // newest N archives
+            keepDaily: z.number().int().min(0).default(0),  // newest archive of each of the last N days
+            keepWeekly: z.number().int().min(0).default(0), // newest archive of each of the last N weeks
+        })
+        .default({ keepLast: 0, keepDaily: 0, keepWeekly: 0 }),
+});
+
+export type BackupSchedule = z.infer<typeof backupScheduleSchema>;
+export type BackupRetention = BackupSchedule['retention'];
+
+export const DEFAULT_BACKUP_SCHEDULE: BackupSchedule = backupScheduleSchema.parse({});
+
+/** True when no rule is set, i.e. keep every archive (run.sh behaviour). */
+export function keepsEverything(r: BackupRetention): boolean {
+    return r.keepLast === 0 && r.keepDaily === 0 && r.keepWeekly === 0;
+}
+
+function dayKey(d: Date) {
+    return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+}
+
+// Weeks start on Monday, local time
+function weekKey(d: Date) {
+    const monday = new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7));
+    return dayKey(monday);
+}
+
+/**
+ * Archives that no retention rule keeps. A backup survives if any rule wants it.
+ * `backups` can be in any order; each needs a name and an ISO createdAt.
+ */
+export function selectExpired<T extends { name: string; createdAt: string }>(backups: T[], r: BackupRetention): T[] {
+    if (keepsEverything(r)) return [];
+    const newestFirst = [...backups].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const keep = new Set<string>(newestFirst.slice(0, r.keepLast).map((b) => b.name));
+
+    const bucketed = (count: number, key: (d: Date) => string) => {
+        const seen = new Set<string>();
+        for (const b of newestFirst) {
+            if (seen.size >= count) break;
+            const k = key(new Date(b.createdAt));
+            if (seen.has(k)) continue;
+            seen.add(k);
+            keep.add(b.name);
+        }
+    };
+    bucketed(r.keepDaily, dayKey);
+    bucketed(r.keepWeekly, weekKey);
+
+    return newestFirst.filter((b) => !keep.has(b.name));
+}
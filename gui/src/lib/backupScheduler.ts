@@ -0,0 +1,116 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BackupSchedule, DEFAULT_BACKUP_SCHEDULE, backupScheduleSchema, parseIntervalToSeconds, selectExpired } from '@/lib/backupSchedule';
+import { createBackup, deleteBackup, listBackups, readLastBackup } from '@/lib/backups';
+import { getServerState } from '@/lib/serverProcess';
+import { listWorldNames, worldDir } from '@/lib/worlds';
+
+const TICK_MS = 60_000;
+
+function scheduleFile(worldName: string) {
+    return path.join(worldDir(worldName), 'backup.json');
+}
+
+/** worlds/<name>/backup.json, or the defaults (disabled, keep everything) if missing or invalid. */
+export async function readBackupSchedule(worldName: string): Promise<BackupSchedule> {
+    try {
+        const parsed = backupScheduleSchema.safeParse(JSON.parse(await fs.readFile(scheduleFile(worldName), 'utf8')));
+        return parsed.success ? parsed.data : DEFAULT_BACKUP_SCHEDULE;
+    } catch {
+        return DEFAULT_BACKUP_SCHEDULE;
+    }
+}
+
+export async function writeBackupSchedule(worldName: string, schedule: BackupSchedule) {
+    await fs.writeFile(scheduleFile(worldName), JSON.stringify(schedule, null, 2), 'utf8');
+}
+
+/** Next scheduled run: last backup (shell or GUI) + interval; now if never backed up. */
+export function nextRunAt(schedule: BackupSchedule, lastBackupAt: Date | null, now = new Date()): Date | null {
+    if (!schedule.enabled) return null;
+    const secs = parseIntervalToSeconds(schedule.interval);
+    if (!secs) return null;
+    if (!lastBackupAt) return now;
+    return new Date(lastBackupAt.getTime() + secs * 1000);
+}
+
+/**
+ * Delete archives of a world that its retention rules no longer keep. Returns the deleted names.
+ * Retention is part of the schedule: with the schedule off, nothing is ever deleted.
+ */
+export async function pruneBackups(worldName: string, schedule?: BackupSchedule): Promise<string[]> {
+    const { enabled, retention } = schedule ?? (await readBackupSchedule(worldName));
+    if (!enabled) return [];
+    const expired = selectExpired(await listBackups(worldName), retention);
+    const deleted: string[] = [];
+    for (const b of expired) {
+        if (await deleteBackup(b.name)) deleted.push(b.name);
+    }
+    return deleted;
+}
+
+export type ScheduledRun = {
+    at: string;
+    ok: boolean;
+    message: string;
+};
+
+// Scheduler state hangs off globalThis so dev-mode module reloads don't start a second loop
+type SchedulerState = {
+    timer: ReturnType<typeof setInterval> | null;
+    running: boolean;
+    lastRuns: Map<string, ScheduledRun>;
+};
+const g = globalThis as typeof globalThis & { __mcBackupScheduler?: SchedulerState };
+const state: SchedulerState = (g.__mcBackupScheduler ??= { timer: null, running: false, lastRuns: new Map() });
+
+export function lastScheduledRun(worldName: string): ScheduledRun | null {
+    return state.lastRuns.get(worldName) ?? null;
+}
+
+async function runWorld(worldName: string, now: Date) {
+    const schedule = await readBackupSchedule(worldName);
+    if (!schedule.enabled) return;
+
+    const due = nextRunAt(schedule, await readLastBackup(worldName), now);
+    if (due && due.getTime() <= now.getTime()) {
+        const { state: serverState } = await getServerState(worldName);
+        if (serverState === 'stopping') return;
+        if (schedule.onlyWhileRunning && serverState !== 'running') return;
+        try {
+            // Hot backup while running, plain archive otherwise
+            const backup = await createBackup(worldName, { announce: schedule.announce });
+            state.lastRuns.set(worldName, { at: now.toISOString(), ok: true, message: `Created ${backup.name}${backup.warning ? ` (${backup.warning})` : ''}` });
+        } catch (e) {
+            const msg = e instanceof Error ? e.message : 'backup failed';
+            state.lastRuns.set(worldName, { at: now.toISOString(), ok: false, message: msg });
+            return;
+        }
+    }
+    await pruneBackups(worldName, schedule);
+}
+
+export async function runScheduledBackups(now = new Date()) {
+    // A slow tar can outlast the tick; never overlap runs
+    if (state.running) return;
+    state.running = true;
+    try {
+        for (const name of await listWorldNames()) {
+            try {
+                await runWorld(name, now);
+            } catch (e) {
+                console.error(`Scheduled backup for "${name}" failed:`, e);
+            }
+        }
+    } finally {
+        state.running = false;
+    }
+}
+
+export function startBackupScheduler() {
+    if (state.timer) return;
+    state.timer = setInterval(() => {
+        runScheduledBackups().catch((e) => console.error('Backup scheduler error:', e));
+    }, TICK_MS);
+    state.timer.unref?.();
+}
@@ -0,0 +1,253 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { BackupInfo } from '@/lib/types';
+import { ROOT_DIR, WORLDS_DIR, validateWorldName, worldDir } from '@/lib/worlds';
+import { consoleLogOffset, waitForConsoleLine } from '@/lib/console';
+import { getServerState, runServerCommand } from '@/lib/serverProcess';
+
+const execFileAsync = promisify(execFile);
+
+// Same layout as run.sh: backups/<world>-<YYYYmmdd-HHMMSS>.tar.gz plus backups/.last_backup_<world>
+export const BACKUP_DIR = path.join(ROOT_DIR, 'backups');
+const ARCHIVE_RE = /^(.+)-(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})\.tar\.gz$/;
+
+function lastBackupFile(worldName: string) {
+    return path.join(BACKUP_DIR, `.last_backup_${worldName}`);
+}
+
+// Local time, like `date +%Y%m%d-%H%M%S`
+function timestamp(d = new Date()) {
+    const p = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}${p(d.getMonth() + 1)}${p(d.getDate())}-${p(d.getHours())}${p(d.getMinutes())}${p(d.getSeconds())}`;
+}
+
+/** True for a bare archive file name in our layout (no path components). */
+export function isArchiveName(name: string): boolean {
+    return path.basename(name) === name && ARCHIVE_RE.test(name);
+}
+
+function parseArchiveName(name: string): { world: string; createdAt: Date } | null {
+    const m = ARCHIVE_RE.exec(name);
+    if (!m) return null;
+    const [, world, y, mo, d, h, mi, s] = m;
+    return { world, createdAt: new Date(+y, +mo - 1, +d, +h, +mi, +s) };
+}
+
+/** When the world was last backed up, by either run.sh or the GUI. */
+export async function readLastBackup(worldName: string): Promise<Date | null> {
+    try {
+        const secs = Number.parseInt(await fs.readFile(lastBackupFile(worldName), 'utf8'), 10);
+        return Number.isFinite(secs) && secs > 0 ? new Date(secs * 1000) : null;
+    } catch {
+        return null;
+    }
+}
+
+async function writeLastBackup(worldName: string, at: Date) {
+    // Epoch seconds, as run.sh writes with `date +%s`
+    await fs.writeFile(lastBackupFile(worldName), `${Math.floor(at.getTime() / 1000)}\n`);
+}
+
+export async function listBackups(worldName?: string): Promise<BackupInfo[]> {
+    let names: string[];
+    try {
+        names = await fs.readdir(BACKUP_DIR);
+    } catch {
+        return [];
+    }
+    const out: BackupInfo[] = [];
+    for (const name of names) {
+        const parsed = parseArchiveName(name);
+        if (!parsed || (worldName && parsed.world !== worldName)) continue;
+        try {
+            const st = await fs.stat(path.join(BACKUP_DIR, name));
+            if (!st.isFile()) continue;
+            out.push({
+                name,
+                world: parsed.world,
+                createdAt: parsed.createdAt.toISOString(),
+                sizeBytes: st.size,
+            });
+        } catch { /* deleted meanwhile */ }
+    }
+    // Newest first
+    out.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return out;
+}
+
+// One archive/restore at a time per world
+const busyWorlds = new Set<string>();
+
+async function withWorldLock<T>(worldName: string, fn: () => Promise<T>): Promise<T> {
+    if (busyWorlds.has(worldName)) throw new Error(`A backup or restore is already running for "${worldName}"`);
+    busyWorlds.add(worldName);
+    try {
+        return await fn();
+    } finally {
+        busyWorlds.delete(worldName);
+    }
+}
+
+async function archiveWorld(worldName: string): Promise<BackupInfo> {
+    await fs.access(worldDir(worldName));
+    await fs.mkdir(BACKUP_DIR, { recursive: true });
+
+    const now = new Date();
+    const name = `${worldName}-${timestamp(now)}.tar.gz`;
+    const archive = path.join(BACKUP_DIR, name);
+    // Write under a temp name so a half-written archive never shows up in the list
+    const partial = path.join(BACKUP_DIR, `.${name}.partial`);
+    let warning: string | undefined;
+    try {
+        // Relative path inside the archive, like run.sh: tar -C worlds <name>
+        try {
+            await execFileAsync('tar', ['-czf', partial, '-C', WORLDS_DIR, worldName]);
+        } catch (e) {
+            // GNU tar exits 1 for "file changed as we read it": the archive is complete, so keep it and say so
+            const err = e as { code?: unknown; stderr?: string };
+            if (err.code !== 1) throw e;
+            warning = err.stderr?.trim() || 'Some files changed while they were archived';
+        }
+        await fs.rename(partial, archive);
+    } catch (e) {
+        await fs.rm(partial, { force: true });
+        throw e;
+    }
+    await writeLastBackup(worldName, now);
+
+    const st = await fs.stat(archive);
+    return { name, world: worldName, createdAt: now.toISOString(), sizeBytes: st.size, ...(warning ? { warning } : {}) };
+}
+
+const SAVED_RE = /Saved the game/;
+const FLUSH_TIMEOUT_MS = 120_000;
+
+export type HotBackupOptions = {
+    announce?: boolean;  // tell players in chat before and after
+    message?: string;    // custom text for the first announcement
+};
+
+// "save-all flush" blocks until chunks are on disk; RCON gets the reply, stdin users watch the log
+async function flushAndConfirm(worldName: string) {
+    const offset = await consoleLogOffset(worldName);
+    const { via, output } = await runServerCommand(worldName, 'save-all flush');
+    if (via === 'rcon' && output && SAVED_RE.test(output)) return;
+    const line = await waitForConsoleLine(worldName, SAVED_RE, offset, FLUSH_TIMEOUT_MS);
+    if (!line) throw new Error('Server did not confirm "save-all flush" in time');
+}
+
+/**
+ * Back up a running world: pause autosave, flush everything to disk, archive, then always
+ * turn autosave back on, whether or not the archive succeeded.
+ */
+async function createHotBackup(worldName: string, { announce = false, message }: HotBackupOptions = {}) {
+    return withWorldLock(worldName, async () => {
+        const say = async (text: string) => {
+            if (!announce) return;
+            try {
+                await runServerCommand(worldName, `say ${text}`);
+            } catch { /* chat is best-effort */ }
+        };
+
+        await say(message?.trim() || 'Starting a world backup, expect a short lag.');
+        try {
+            await runServerCommand(worldName, 'save-off');
+            await flushAndConfirm(worldName);
+            const backup = await archiveWorld(worldName);
+            await say('World backup complete.');
+            return backup;
+        } finally {
+            try {
+                await runServerCommand(worldName, 'save-on');
+            } catch (e) {
+                console.error(`Could not re-enable saving for "${worldName}":`, e);
+            }
+        }
+    });
+}
+
+/**
+ * Archive worlds/<name> into backups/ and update the shared last-backup marker. A running world
+ * gets a hot backup with saving paused; refuses while the server is shutting down.
+ */
+export async function createBackup(worldName: string, options: HotBackupOptions = {}): Promise<BackupInfo> {
+    const { state } = await getServerState(worldName);
+    if (state === 'stopping') throw new Error('The server is stopping; try again once it has exited');
+    if (state === 'running') return createHotBackup(worldName, options);
+    return withWorldLock(worldName, () => archiveWorld(worldName));
+}
+
+export async function deleteBackup(name: string): Promise<boolean> {
+    if (!isArchiveName(name)) return false;
+    try {
+        await fs.unlink(path.join(BACKUP_DIR, name));
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Extract an archive into worlds/<targetWorld>. The existing folder (if any) is only
+ * replaced when `overwrite` is set, and only after extraction succeeded.
+ * Callers must make sure the target world is not running.
+ */
+export async function restoreBackup(
+    name: string,
+    targetWorld: string,
+    { overwrite = false }: { overwrite?: boolean } = {}
+): Promise<{ world: string; replaced: boolean }> {
+    if (!isArchiveName(name)) throw new Error('Invalid backup name');
+    if (!validateWorldName(targetWorld)) throw new Error('Invalid world name');
+    const archive = path.join(BACKUP_DIR, name);
+    await fs.access(archive);
+
+    return withWorldLock(targetWorld, async () => {
+        const dest = worldDir(targetWorld);
+        let exists = true;
+        try {
+            await fs.access(dest);
+        } catch {
+            exists = false;
+        }
+        if (exists && !overwrite) throw new Error(`World "${targetWorld}" already exists`);
+
+        // Extract next to the archives (same filesystem as worlds/, so the final move is a rename)
+        const tmp = await fs.mkdtemp(path.join(BACKUP_DIR, '.restore-'));
+        try {
+            await execFileAsync('tar', ['-xzf', archive, '-C', tmp]);
+            const top = (await fs.readdir(tmp, { withFileTypes: true })).filter(e => e.isDirectory());
+            if (top.length !== 1) throw new Error('Backup does not contain a single world folder');
+
+            await fs.mkdir(WORLDS_DIR, { recursive: true });
+            let aside: string | null = null;
+            if (exists) {
+                aside = path.join(tmp, '.replaced');
+                await fs.rename(dest, aside);
+            }
+            try {
+                await fs.rename(path.join(tmp, top[0].name), dest);
+            } catch (e) {
+                if (aside) await fs.rename(aside, dest);
+                throw e;
+            }
+            return { world: targetWorld, replaced: exists };
+        } finally {
+            await fs.rm(tmp, { recursive: true, force: true });
+        }
+    });
+}
+
+// run.sh reads BACKUP_ON_STOP from the repo-root .env; honour the same switch for GUI stops
+export async function backupOnStopEnabled(): Promise<boolean> {
+    if (process.env.BACKUP_ON_STOP) return process.env.BACKUP_ON_STOP === 'TRUE';
+    try {
+        const env = await fs.readFile(path.join(ROOT_DIR, '.env'), 'utf8');
+        const m = /^\s*BACKUP_ON_STOP\s*=\s*["']?([^"'\s#]*)/m.exec(env);
+        return m?.[1] === 'TRUE';
+    } catch {
+        return false;
+    }
+}
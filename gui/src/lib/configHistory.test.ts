@@ -0,0 +1,62 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { diffConfig, listConfigVersions, readConfigVersion, rollbackConfigFile, writeConfigFile } from '@/lib/configHistory';
+
+const list = (entries: object[]) => JSON.stringify(entries, null, 2);
+
+describe('diffConfig', () => {
+    it('compares server.properties by key', () => {
+        expect(diffConfig('server.properties', 'motd=Hi\npvp=true\n', 'motd=Hello\ndifficulty=hard\n')).toEqual([
+            { key: 'motd', from: 'Hi', to: 'Hello' },
+            { key: 'difficulty', from: null, to: 'hard' },
+            { key: 'pvp', from: 'true', to: null },
+        ]);
+    });
+
+    it('compares player lists by name', () => {
+        const before = list([{ uuid: 'a', name: 'alex' }, { uuid: 's', name: 'steve' }]);
+        const after = list([{ uuid: 's', name: 'steve', level: 4 }, { uuid: 'n', name: 'notch' }]);
+        expect(diffConfig('ops.json', before, after)).toEqual([
+            { key: 'steve', from: '{"uuid":"s","name":"steve"}', to: '{"uuid":"s","name":"steve","level":4}' },
+            { key: 'notch', from: null, to: '{"uuid":"n","name":"notch"}' },
+            { key: 'alex', from: '{"uuid":"a","name":"alex"}', to: null },
+        ]);
+    });
+
+    it('compares banned IPs by address, ignoring formatting', () => {
+        const before = list([{ ip: '10.0.0.1', reason: 'spam' }]);
+        expect(diffConfig('banned-ips.json', before, JSON.stringify(JSON.parse(before)))).toEqual([]);
+        expect(diffConfig('banned-ips.json', before, '[]').map((c) => c.key)).toEqual(['10.0.0.1']);
+    });
+
+    it('treats a list it cannot read as one change to the whole file', () => {
+        expect(diffConfig('whitelist.json', '[]', '{ not json')).toEqual([{ key: 'whitelist.json', from: '[]', to: '{ not json' }]);
+    });
+});
+
+describe('writeConfigFile', () => {
+    let dir: string;
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mc-history-'));
+    });
+    afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    it('snapshots each whitelist save and rolls back to an earlier one', async () => {
+        fs.writeFileSync(path.join(dir, 'whitelist.json'), list([{ name: 'alex' }]));
+
+        await writeConfigFile(dir, 'whitelist.json', list([{ name: 'alex' }, { name: 'steve' }]), { author: 'sam' });
+        expect(await writeConfigFile(dir, 'whitelist.json', list([{ name: 'alex' }, { name: 'steve' }]), { author: 'sam' })).toBeNull();
+
+        const versions = await listConfigVersions(dir, 'whitelist.json');
+        expect(versions.map((v) => [v.version, v.author, v.changedKeys])).toEqual([
+            [2, 'sam', ['steve']],
+            [1, null, []],
+        ]);
+
+        const back = await rollbackConfigFile(dir, 'whitelist.json', 1, 'sam');
+        expect(back?.changedKeys).toEqual(['steve']);
+        expect(fs.readFileSync(path.join(dir, 'whitelist.json'), 'utf8')).toBe((await readConfigVersion(dir, 'whitelist.json', 1))?.content);
+    });
+});
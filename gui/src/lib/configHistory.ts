@@ -0,0 +1,218 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parsePropertiesText } from '@/lib/properties';
+import { AUTHOR_HEADER } from '@/lib/author';
+import { ConfigChange, ConfigVersion } from '@/lib/types';
+
+// Every GUI write of a world's config files keeps a snapshot in <world>/.config-history/<file>/,
+// so backups and restores carry the history along with the files it describes.
+// Functions take the world folder rather than a name so this module stays below lib/worlds.
+
+const HISTORY_DIRNAME = '.config-history';
+const MAX_VERSIONS = 100;       // per file; the oldest go first
+
+type ListFile = { format: 'list'; entryKey: (entry: Record<string, unknown>) => unknown };
+type ConfigFormat = { format: 'properties' } | ListFile;
+
+const playerKey = (e: Record<string, unknown>) => e.name ?? e.uuid;
+
+export const CONFIG_FILES = {
+    'server.properties': { format: 'properties' },
+    'whitelist.json': { format: 'list', entryKey: playerKey },
+    'ops.json': { format: 'list', entryKey: playerKey },
+    'banned-players.json': { format: 'list', entryKey: playerKey },
+    'banned-ips.json': { format: 'list', entryKey: (e) => e.ip },
+} as const satisfies Record<string, ConfigFormat>;
+
+export type ConfigFileName = keyof typeof CONFIG_FILES;
+
+export function isConfigFileName(name: string): name is ConfigFileName {
+    return Object.hasOwn(CONFIG_FILES, name);
+}
+
+export type ConfigSnapshot = ConfigVersion & { content: string };
+
+export type ChangeMeta = { author: string | null; note?: string };
+
+/** Who made a change: the name the GUI sends, else a user set by an authenticating proxy. */
+export function authorFromRequest(request: Request): string | null {
+    const sent = request.headers.get(AUTHOR_HEADER);
+    if (sent) {
+        try {
+            const name = decodeURIComponent(sent).trim().slice(0, 100);
+            if (name) return name;
+        } catch { /* not percent-encoded; fall through */ }
+    }
+    return request.headers.get('x-forwarded-user') || request.headers.get('remote-user') || null;
+}
+
+function historyDir(dir: string, file: ConfigFileName) {
+    return path.join(dir, HISTORY_DIRNAME, file);
+}
+
+function snapshotFile(dir: string, file: ConfigFileName, version: number) {
+    return path.join(historyDir(dir, file), `${String(version).padStart(6, '0')}.json`);
+}
+
+async function versionNumbers(dir: string, file: ConfigFileName): Promise<number[]> {
+    let names: string[];
+    try {
+        names = await fs.readdir(historyDir(dir, file));
+    } catch {
+        return [];
+    }
+    return names
+        .map((n) => /^(\d+)\.json$/.exec(n)?.[1])
+        .filter((n): n is string => n !== undefined)
+        .map(Number)
+        .sort((a, b) => a - b);
+}
+
+export async function readConfigVersion(dir: string, file: ConfigFileName, version: number): Promise<ConfigSnapshot | null> {
+    try {
+        return JSON.parse(await fs.readFile(snapshotFile(dir, file, version), 'utf8')) as ConfigSnapshot;
+    } catch {
+        return null;
+    }
+}
+
+async function readCurrent(dir: string, file: ConfigFileName): Promise<string | null> {
+    try {
+        return await fs.readFile(path.join(dir, file), 'utf8');
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw e;
+    }
+}
+
+// Entries of a JSON list file by their identity (player name, IP), as compact JSON
+function listEntries(text: string, format: ListFile): Map<string, string> | null {
+    try {
+        const arr = JSON.parse(text) as unknown;
+        if (!Array.isArray(arr)) return null;
+        const entries = new Map<string, string>();
+        arr.forEach((e, i) => {
+            const key = e && typeof e === 'object' ? format.entryKey(e as Record<string, unknown>) : undefined;
+            entries.set(typeof key === 'string' && key ? key : `#${i + 1}`, JSON.stringify(e));
+        });
+        return entries;
+    } catch {
+        return null;
+    }
+}
+
+/** What differs between two contents of a file: property keys, or list entries. Null content is an absent file. */
+export function diffConfig(file: ConfigFileName, before: string | null, after: string | null): ConfigChange[] {
+    const spec: ConfigFormat = CONFIG_FILES[file];
+    let a: Map<string, string> | null;
+    let b: Map<string, string> | null;
+    if (spec.format === 'properties') {
+        a = new Map(Object.entries(parsePropertiesText(before ?? '')));
+        b = new Map(Object.entries(parsePropertiesText(after ?? '')));
+    } else {
+        a = before === null ? new Map() : listEntries(before, spec);
+        b = after === null ? new Map() : listEntries(after, spec);
+    }
+    // Not a list we can read: the file as a whole
+    if (!a || !b) return before === after ? [] : [{ key: file, from: before, to: after }];
+
+    const changes: ConfigChange[] = [];
+    for (const [key, to] of b) if (a.get(key) !== to) changes.push({ key, from: a.get(key) ?? null, to });
+    for (const [key, from] of a) if (!b.has(key)) changes.push({ key, from, to: null });
+    return changes;
+}
+
+async function saveSnapshot(dir: string, file: ConfigFileName, content: string, previous: string | null, meta: ChangeMeta) {
+    const numbers = await versionNumbers(dir, file);
+    const version = (numbers[numbers.length - 1] ?? 0) + 1;
+    const snapshot: ConfigSnapshot = {
+        version,
+        at: new Date().toISOString(),
+        author: meta.author,
+        changedKeys: diffConfig(file, previous, content).map((c) => c.key),
+        ...(meta.note ? { note: meta.note } : {}),
+        content,
+    };
+    await fs.mkdir(historyDir(dir, file), { recursive: true });
+    await fs.writeFile(snapshotFile(dir, file, version), JSON.stringify(snapshot, null, 2), 'utf8');
+    for (const old of numbers.slice(0, Math.max(0, numbers.length + 1 - MAX_VERSIONS))) {
+        await fs.rm(snapshotFile(dir, file, old), { force: true });
+    }
+    return snapshot;
+}
+
+// Record what is on disk if it isn't the newest snapshot: the first tracked file, or an edit
+// made outside the GUI (by hand, or by the server itself for ops and bans)
+async function syncCurrent(dir: string, file: ConfigFileName): Promise<string | null> {
+    const current = await readCurrent(dir, file);
+    const numbers = await versionNumbers(dir, file);
+    const latest = numbers.length ? await readConfigVersion(dir, file, numbers[numbers.length - 1]) : null;
+    if (current !== null && latest?.content !== current) {
+        const note = latest ? 'Changed outside the GUI' : 'As found before the first tracked change';
+        // The baseline changes nothing; it's what later versions are compared with
+        await saveSnapshot(dir, file, current, latest ? latest.content : current, { author: null, note });
+    }
+    return current;
+}
+
+// One write at a time per file, so version numbers and "previous" contents don't interleave
+const g = globalThis as typeof globalThis & { __mcConfigWrites?: Map<string, Promise<unknown>> };
+const queues: Map<string, Promise<unknown>> = (g.__mcConfigWrites ??= new Map());
+
+function serialized<T>(dir: string, file: ConfigFileName, fn: () => Promise<T>): Promise<T> {
+    const key = path.join(dir, file);
+    const run = (queues.get(key) ?? Promise.resolve()).then(fn, fn);
+    queues.set(key, run.catch(() => {}));
+    return run;
+}
+
+function withoutContent(s: ConfigSnapshot): ConfigVersion {
+    return { version: s.version, at: s.at, author: s.author, changedKeys: s.changedKeys, ...(s.note ? { note: s.note } : {}) };
+}
+
+/**
+ * Write a config file and keep a snapshot of the new contents. `content` may be a function of
+ * the current contents (null when the file is missing), run in turn with other writes of the file.
+ * Returns the new version, or null when the contents didn't change.
+ */
+export function writeConfigFile(
+    dir: string,
+    file: ConfigFileName,
+    content: string | ((current: string | null) => string),
+    meta: ChangeMeta
+): Promise<ConfigVersion | null> {
+    return serialized(dir, file, async () => {
+        const current = await syncCurrent(dir, file);
+        const next = typeof content === 'function' ? content(current) : content;
+        if (current === next) return null;
+        const tmp = path.join(dir, `.${file}.${process.pid}.tmp`);
+        await fs.writeFile(tmp, next, 'utf8');
+        await fs.rename(tmp, path.join(dir, file));
+        return withoutContent(await saveSnapshot(dir, file, next, current, meta));
+    });
+}
+
+/** Versions of a file, newest first; picks up outside edits first. */
+export function listConfigVersions(dir: string, file: ConfigFileName): Promise<ConfigVersion[]> {
+    return serialized(dir, file, async () => {
+        await syncCurrent(dir, file);
+        const versions: ConfigVersion[] = [];
+        for (const n of (await versionNumbers(dir, file)).reverse()) {
+            const snapshot = await readConfigVersion(dir, file, n);
+            if (snapshot) versions.push(withoutContent(snapshot));
+        }
+        return versions;
+    });
+}
+
+/** Put an earlier version back; the rollback itself becomes the newest version. */
+export async function rollbackConfigFile(
+    dir: string,
+    file: ConfigFileName,
+    version: number,
+    author: string | null
+): Promise<ConfigVersion | null> {
+    const snapshot = await readConfigVersion(dir, file, version);
+    if (!snapshot) throw new Error(`Version ${version} of ${file} not found`);
+    return writeConfigFile(dir, file, snapshot.content, { author, note: `Rolled back to version ${version}` });
+}
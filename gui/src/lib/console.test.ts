@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+// mkfifo can be made to fail, as where it doesn't exist
+const mkfifo = vi.hoisted(() => ({ missing: false }));
+vi.mock('child_process', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('child_process')>();
+    return {
+        ...actual,
+        execFile: (file: string, args: string[], callback: (err: Error | null) => void) => {
+            if (file === 'mkfifo' && mkfifo.missing) return callback(new Error('spawn mkfifo ENOENT'));
+            return actual.execFile(file, args, callback);
+        },
+    };
+});
+
+// lib/worlds puts everything under the parent of the cwd; point that at a scratch repo root
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mc-console-'));
+fs.mkdirSync(path.join(root, 'gui'));
+vi.spyOn(process, 'cwd').mockReturnValue(path.join(root, 'gui'));
+const { ConsoleInputError, consoleLogFile, openStdinFifo, readRecentLines, stdinFifo, writeConsoleCommand } =
+    await import('@/lib/console');
+
+const WORLD = 'alpha';
+const LINES = ['one', 'two', 'three', 'four'];
+
+fs.mkdirSync(path.dirname(consoleLogFile(WORLD)), { recursive: true });
+fs.writeFileSync(consoleLogFile(WORLD), `${LINES.join('\n')}\npartial`);
+const completeBytes = Buffer.byteLength(`${LINES.join('\n')}\n`);
+
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }));
+
+describe('readRecentLines', () => {
+    it('returns the last complete lines and the offset after them', async () => {
+        await expect(readRecentLines(WORLD, 2)).resolves.toEqual({ lines: ['three', 'four'], offset: completeBytes });
+    });
+
+    it('returns no lines for a count of zero, still positioned at the end', async () => {
+        await expect(readRecentLines(WORLD, 0)).resolves.toEqual({ lines: [], offset: completeBytes });
+    });
+
+    it('returns nothing when the log does not exist', async () => {
+        await expect(readRecentLines('missing', 10)).resolves.toEqual({ lines: [], offset: 0 });
+    });
+});
+
+describe('console input', () => {
+    it('opens a pipe that commands are written to', async () => {
+        const handle = await openStdinFifo(WORLD);
+        expect(handle).not.toBeNull();
+        try {
+            await writeConsoleCommand(WORLD, 'list');
+            const buf = Buffer.alloc(16);
+            const { bytesRead } = await handle!.read(buf, 0, buf.length);
+            expect(buf.subarray(0, bytesRead).toString()).toBe('list\n');
+        } finally {
+            await handle!.close();
+        }
+    });
+
+    it('falls back to no input when mkfifo is unavailable', async () => {
+        mkfifo.missing = true;
+        try {
+            await expect(openStdinFifo(WORLD)).resolves.toBeNull();
+            expect(fs.existsSync(stdinFifo(WORLD))).toBe(false);
+            await expect(writeConsoleCommand(WORLD, 'list')).rejects.toBeInstanceOf(ConsoleInputError);
+        } finally {
+            mkfifo.missing = false;
+        }
+    });
+});
@@ -0,0 +1,209 @@
+import { constants } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { PID_DIR, ROOT_DIR } from '@/lib/worlds';
+
+const execFileAsync = promisify(execFile);
+
+// Server stdout/stderr goes to .mc-logs/<world>.log; older runs are kept as <world>.log.1 … .log.N
+export const LOG_DIR = path.join(ROOT_DIR, '.mc-logs');
+const KEEP_ROTATED = 5;
+const MAX_LOG_BYTES = 10 * 1024 * 1024;
+
+export function consoleLogFile(worldName: string) {
+    return path.join(LOG_DIR, `${worldName}.log`);
+}
+
+async function shiftRotated(worldName: string) {
+    const base = consoleLogFile(worldName);
+    await fs.rm(`${base}.${KEEP_ROTATED}`, { force: true });
+    for (let i = KEEP_ROTATED - 1; i >= 1; i--) {
+        try {
+            await fs.rename(`${base}.${i}`, `${base}.${i + 1}`);
+        } catch { /* gap in the sequence */ }
+    }
+}
+
+/** Move the current log aside before a new run. Only call while no process is writing to it. */
+export async function rotateConsoleLog(worldName: string) {
+    await fs.mkdir(LOG_DIR, { recursive: true });
+    const base = consoleLogFile(worldName);
+    try {
+        await fs.access(base);
+    } catch {
+        return;
+    }
+    await shiftRotated(worldName);
+    await fs.rename(base, `${base}.1`);
+}
+
+/**
+ * Size cap for a log that a running server is appending to. The server holds the file open,
+ * so copy it aside and truncate in place (the O_APPEND fd keeps writing at the new end).
+ * Only the supervisor tick calls this, so rotations of one file never overlap.
+ */
+export async function rotateConsoleLogIfLarge(worldName: string): Promise<boolean> {
+    const base = consoleLogFile(worldName);
+    try {
+        const st = await fs.stat(base);
+        if (st.size < MAX_LOG_BYTES) return false;
+        await shiftRotated(worldName);
+        await fs.copyFile(base, `${base}.1`);
+        await fs.truncate(base, 0);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** Append-mode handle to pass as the child's stdout/stderr. Close it once the child is spawned. */
+export async function openConsoleLog(worldName: string) {
+    await fs.mkdir(LOG_DIR, { recursive: true });
+    return fs.open(consoleLogFile(worldName), 'a');
+}
+
+/** Last `count` complete lines of the current log, plus the byte offset they end at. */
+export async function readRecentLines(
+    worldName: string,
+    count = 200
+): Promise<{ lines: string[]; offset: number }> {
+    let handle;
+    try {
+        handle = await fs.open(consoleLogFile(worldName), 'r');
+    } catch {
+        return { lines: [], offset: 0 };
+    }
+    try {
+        const { size } = await handle.stat();
+        const start = Math.max(0, size - 256 * 1024);
+        const buf = Buffer.alloc(size - start);
+        await handle.read(buf, 0, buf.length, start);
+
+        // Only hand out whole lines; the partial tail is picked up by the follower
+        const lastNl = buf.lastIndexOf(0x0a);
+        if (lastNl === -1) return { lines: [], offset: start };
+        const lines = buf.subarray(0, lastNl).toString('utf8').split(/\r?\n/);
+        if (start > 0) lines.shift(); // first line is likely cut
+        // slice(-0) would be every line
+        return { lines: count > 0 ? lines.slice(-count) : [], offset: start + lastNl + 1 };
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * Complete lines appended since `offset` (a partial last line is left for the next call).
+ * A shrunk file means it was rotated, so start over from the top.
+ */
+export async function readLinesFrom(
+    worldName: string,
+    offset: number
+): Promise<{ lines: string[]; offset: number; rotated: boolean }> {
+    let handle;
+    try {
+        handle = await fs.open(consoleLogFile(worldName), 'r');
+    } catch {
+        return { lines: [], offset: 0, rotated: offset > 0 };
+    }
+    try {
+        const { size } = await handle.stat();
+        const rotated = size < offset;
+        if (rotated) offset = 0;
+        if (size === offset) return { lines: [], offset, rotated };
+        const buf = Buffer.alloc(Math.min(size - offset, 1024 * 1024));
+        await handle.read(buf, 0, buf.length, offset);
+        const lastNl = buf.lastIndexOf(0x0a);
+        if (lastNl === -1) return { lines: [], offset, rotated };
+        const text = buf.subarray(0, lastNl).toString('utf8');
+        return { lines: text.split(/\r?\n/), offset: offset + lastNl + 1, rotated };
+    } finally {
+        await handle.close();
+    }
+}
+
+/** Current end of the log, to pass to waitForConsoleLine before triggering the output. */
+export async function consoleLogOffset(worldName: string): Promise<number> {
+    try {
+        return (await fs.stat(consoleLogFile(worldName))).size;
+    } catch {
+        return 0;
+    }
+}
+
+/** Poll the log from `offset` until a line matches; null on timeout. */
+export async function waitForConsoleLine(
+    worldName: string,
+    pattern: RegExp,
+    offset: number,
+    timeoutMs: number
+): Promise<string | null> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+        const next = await readLinesFrom(worldName, offset);
+        offset = next.offset;
+        const hit = next.lines.find((l) => pattern.test(l));
+        if (hit !== undefined) return hit;
+        if (Date.now() >= deadline) return null;
+        await new Promise((r) => setTimeout(r, 250));
+    }
+}
+
+// ---- Console input ----
+// The server's stdin is a named pipe next to its pid file. The child opens it read/write, so it
+// never sees EOF between writers, and any later process (e.g. after a dev-server reload) can
+// open the pipe and write a command line.
+
+export function stdinFifo(worldName: string) {
+    return path.join(PID_DIR, `${worldName}.stdin`);
+}
+
+/** Console input can't reach the server: it has no pipe (started outside the GUI, or mkfifo unavailable) or has exited. */
+export class ConsoleInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConsoleInputError';
+    }
+}
+
+/**
+ * Create a fresh FIFO and return a read/write handle to pass as the child's stdin.
+ * Null where named pipes aren't available (no mkfifo): the server then runs without console input.
+ */
+export async function openStdinFifo(worldName: string) {
+    const fifo = stdinFifo(worldName);
+    await fs.mkdir(PID_DIR, { recursive: true });
+    await fs.rm(fifo, { force: true });
+    try {
+        await execFileAsync('mkfifo', ['-m', '600', fifo]);
+        // O_RDWR never blocks on a FIFO and keeps a writer attached for the child's lifetime
+        return await fs.open(fifo, constants.O_RDWR);
+    } catch {
+        await fs.rm(fifo, { force: true });
+        return null;
+    }
+}
+
+/** Write one command line to a running server's stdin. Throws ConsoleInputError when nothing is listening. */
+export async function writeConsoleCommand(worldName: string, command: string) {
+    let handle;
+    try {
+        handle = await fs.open(stdinFifo(worldName), constants.O_WRONLY | constants.O_NONBLOCK);
+    } catch (e) {
+        const code = (e as NodeJS.ErrnoException).code;
+        if (code === 'ENOENT' || code === 'ENXIO') {
+            throw new ConsoleInputError('Console input is not available for this server (started outside the GUI, or without a console pipe).');
+        }
+        throw e;
+    }
+    try {
+        await handle.write(`${command}\n`);
+    } finally {
+        await handle.close();
+    }
+}
+
+export async function removeStdinFifo(worldName: string) {
+    await fs.rm(stdinFifo(worldName), { force: true });
+}
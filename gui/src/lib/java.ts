@@ -0,0 +1,169 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { JavaRuntime } from '@/lib/types';
+import { readCachedVersionJson, readVersionJson, validateVersionId } from '@/lib/versions';
+
+const execFileAsync = promisify(execFile);
+
+const DETECT_TTL_MS = 60_000;
+const JAVA_BIN = process.platform === 'win32' ? 'java.exe' : 'java';
+
+// Parent directories whose children are JDK/JRE homes (Linux packages, macOS, SDKMAN, Homebrew)
+const INSTALL_ROOTS = [
+    '/usr/lib/jvm',
+    '/usr/java',
+    '/usr/local/java',
+    '/opt/java',
+    '/opt/jdk',
+    '/Library/Java/JavaVirtualMachines',
+    path.join(os.homedir(), 'Library/Java/JavaVirtualMachines'),
+    path.join(os.homedir(), '.sdkman/candidates/java'),
+    path.join(os.homedir(), '.jdks'),
+    '/opt/homebrew/opt',
+    '/usr/local/opt',
+];
+
+/**
+ * Version string from `java -version` output, e.g. 'openjdk version "21.0.2"' → "21.0.2";
+ * major is the first number, or the second for old "1.8.0_392"-style versions.
+ */
+export function parseJavaVersion(output: string): { version: string; majorVersion: number } | null {
+    const m = /version "([^"]+)"/.exec(output);
+    if (!m) return null;
+    const parts = m[1].split(/[._+-]/).map((p) => Number.parseInt(p, 10));
+    const majorVersion = parts[0] === 1 ? parts[1] : parts[0];
+    return Number.isFinite(majorVersion) ? { version: m[1], majorVersion } : null;
+}
+
+async function isExecutable(file: string) {
+    try {
+        await fs.access(file, fs.constants.X_OK);
+        return (await fs.stat(file)).isFile();
+    } catch {
+        return false;
+    }
+}
+
+// bin/java under each home found in the install roots (macOS bundles keep it in Contents/Home)
+async function scanInstallRoots(): Promise<string[]> {
+    const found: string[] = [];
+    for (const root of INSTALL_ROOTS) {
+        let entries;
+        try {
+            entries = await fs.readdir(root, { withFileTypes: true });
+        } catch {
+            continue;
+        }
+        for (const e of entries) {
+            if (!e.isDirectory() && !e.isSymbolicLink()) continue;
+            if (root.endsWith('/opt') && !/^openjdk/.test(e.name)) continue; // Homebrew: only JDK kegs
+            found.push(path.join(root, e.name, 'bin', JAVA_BIN));
+            found.push(path.join(root, e.name, 'Contents/Home/bin', JAVA_BIN));
+        }
+    }
+    return found;
+}
+
+async function candidates(): Promise<{ file: string; source: JavaRuntime['source'] }[]> {
+    const out: { file: string; source: JavaRuntime['source'] }[] = [];
+    if (process.env.JAVA_HOME) out.push({ file: path.join(process.env.JAVA_HOME, 'bin', JAVA_BIN), source: 'JAVA_HOME' });
+    for (const dir of (process.env.PATH || '').split(path.delimiter)) {
+        if (dir) out.push({ file: path.join(dir, JAVA_BIN), source: 'PATH' });
+    }
+    for (const file of await scanInstallRoots()) out.push({ file, source: 'system' });
+    return out;
+}
+
+async function probe(file: string, source: JavaRuntime['source']): Promise<JavaRuntime | null> {
+    try {
+        // `java -version` prints to stderr
+        const { stdout, stderr } = await execFileAsync(file, ['-version'], { timeout: 10_000 });
+        const parsed = parseJavaVersion(`${stderr}\n${stdout}`);
+        return parsed ? { path: file, source, ...parsed } : null;
+    } catch {
+        return null;
+    }
+}
+
+let cache: { at: number; runtimes: JavaRuntime[] } | null = null;
+
+/** Every working Java found in JAVA_HOME, PATH and common install folders, in that order, deduplicated. */
+export async function detectJavaRuntimes({ refresh = false } = {}): Promise<JavaRuntime[]> {
+    if (!refresh && cache && Date.now() - cache.at < DETECT_TTL_MS) return cache.runtimes;
+
+    const seen = new Set<string>();
+    const runtimes: JavaRuntime[] = [];
+    for (const { file, source } of await candidates()) {
+        if (!(await isExecutable(file))) continue;
+        // /usr/bin/java is usually a symlink into /usr/lib/jvm; probe each real binary once
+        const real = await fs.realpath(file).catch(() => file);
+        if (seen.has(real)) continue;
+        seen.add(real);
+        const runtime = await probe(file, source);
+        if (runtime) runtimes.push(runtime);
+    }
+    cache = { at: Date.now(), runtimes };
+    return runtimes;
+}
+
+/**
+ * Java major version a game version needs, from its version JSON; null when unknown.
+ * With `offline`, only a version JSON already in the cache is consulted.
+ */
+export async function requiredJavaMajor(versionId: string | null, { offline = false } = {}): Promise<number | null> {
+    if (!versionId || !validateVersionId(versionId)) return null;
+    try {
+        const json = offline ? await readCachedVersionJson(versionId) : await readVersionJson(versionId);
+        return json?.javaVersion?.majorVersion ?? null;
+    } catch {
+        return null;
+    }
+}
+
+/** Game version guessed from a jar named like our downloads, "server-1.21.8.jar". */
+export function versionFromJarName(jarPath: string): string | null {
+    const m = /^server-(.+)\.jar$/i.exec(path.basename(jarPath));
+    return m && validateVersionId(m[1]) ? m[1] : null;
+}
+
+/**
+ * Pick a runtime for a required major version: an exact match if there is one (old servers can
+ * break on much newer Java), else the oldest newer one. With no requirement the first found wins,
+ * which is JAVA_HOME, then PATH, as with a plain `java` spawn.
+ */
+export function pickJavaRuntime(runtimes: JavaRuntime[], required: number | null): JavaRuntime | null {
+    if (required === null) return runtimes[0] ?? null;
+    const exact = runtimes.find((r) => r.majorVersion === required);
+    if (exact) return exact;
+    const newer = runtimes.filter((r) => r.majorVersion > required).sort((a, b) => a.majorVersion - b.majorVersion);
+    return newer[0] ?? null;
+}
+
+export class JavaNotFoundError extends Error {
+    constructor(readonly required: number | null, readonly found: JavaRuntime[], gameVersion: string | null) {
+        const what = gameVersion ? `Minecraft ${gameVersion}` : 'This server';
+        const have = found.length
+            ? `found ${found.map((r) => `Java ${r.majorVersion} (${r.path})`).join(', ')}`
+            : 'no Java installation was found';
+        super(
+            required === null
+                ? `${what} needs Java, but ${have}. Install a JDK or set JAVA_HOME.`
+                : `${what} needs Java ${required} or newer, but ${have}. Install Java ${required} or point JAVA_HOME at it.`
+        );
+        this.name = 'JavaNotFoundError';
+    }
+}
+
+/** Runtime to launch a game version with; throws JavaNotFoundError with a readable message if none fits. */
+export async function resolveJavaFor(
+    gameVersion: string | null,
+    { offline = false } = {}
+): Promise<{ runtime: JavaRuntime; required: number | null }> {
+    const [runtimes, required] = await Promise.all([detectJavaRuntimes(), requiredJavaMajor(gameVersion, { offline })]);
+    const runtime = pickJavaRuntime(runtimes, required);
+    if (!runtime) throw new JavaNotFoundError(required, runtimes, gameVersion);
+    return { runtime, required };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { jvmArgsFor, launchProfileSchema, memoryToBytes } from '@/lib/launchProfile';
+
+describe('launchProfileSchema memory sizes', () => {
+    it.each(['4G', '512M', '2g', '1048576K'])('accepts %s', (xmx) => {
+        expect(launchProfileSchema.safeParse({ xmx }).success).toBe(true);
+    });
+
+    it.each(['2', '4096', '4GB', 'G', '-1G'])('rejects %s', (xmx) => {
+        const parsed = launchProfileSchema.safeParse({ xmx });
+        expect(parsed.success).toBe(false);
+        expect(parsed.error?.issues[0].path).toEqual(['xmx']);
+    });
+
+    it('rejects a heap below 64M', () => {
+        expect(launchProfileSchema.safeParse({ xms: '32M' }).success).toBe(false);
+        expect(launchProfileSchema.safeParse({ xms: '64M' }).success).toBe(true);
+    });
+
+    it('passes the sizes to java as written', () => {
+        const profile = launchProfileSchema.parse({ xmx: '6G', xms: '2G' });
+        expect(jvmArgsFor(profile).slice(0, 2)).toEqual(['-Xms2G', '-Xmx6G']);
+    });
+});
+
+describe('memoryToBytes', () => {
+    it('reads a bare number as bytes, as java does', () => {
+        expect(memoryToBytes('2')).toBe(2);
+        expect(memoryToBytes('512m')).toBe(512 * 1024 ** 2);
+    });
+});
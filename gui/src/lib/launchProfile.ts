@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+// JVM heap sizes as java takes them: 512M, 4G, 1048576K. The unit is required: java reads a
+// bare number as bytes, and no server starts in that little
+const MIN_HEAP_BYTES = 64 * 1024 ** 2;
+const memorySchema = z
+    .string()
+    .trim()
+    .regex(/^\d+[KkMmGg]$/, 'Use a number with K, M or G (e.g. 4G)')
+    .refine((v) => (memoryToBytes(v) ?? 0) >= MIN_HEAP_BYTES, 'Use at least 64M');
+
+export const GC_PRESETS = {
+    default: [],
+    g1: ['-XX:+UseG1GC', '-XX:MaxGCPauseMillis=200'],
+    // Aikar's flags, the usual recommendation for G1 on game servers
+    aikar: [
+        '-XX:+UseG1GC',
+        '-XX:+ParallelRefProcEnabled',
+        '-XX:MaxGCPauseMillis=200',
+        '-XX:+UnlockExperimentalVMOptions',
+        '-XX:+DisableExplicitGC',
+        '-XX:+AlwaysPreTouch',
+        '-XX:G1NewSizePercent=30',
+        '-XX:G1MaxNewSizePercent=40',
+        '-XX:G1HeapRegionSize=8M',
+        '-XX:G1ReservePercent=20',
+        '-XX:G1HeapWastePercent=5',
+        '-XX:G1MixedGCCountTarget=4',
+        '-XX:InitiatingHeapOccupancyPercent=15',
+        '-XX:G1MixedGCLiveThresholdPercent=90',
+        '-XX:G1RSetUpdatingPauseTimePercent=5',
+        '-XX:SurvivorRatio=32',
+        '-XX:+PerfDisableSharedMem',
+        '-XX:MaxTenuringThreshold=1',
+    ],
+    zgc: ['-XX:+UseZGC'],
+} as const satisfies Record<string, readonly string[]>;
+
+export type GcPreset = keyof typeof GC_PRESETS;
+
+/** What the supervisor does when the server crashes (a non-zero exit or a signal it didn't send). */
+export const restartPolicySchema = z.object({
+    enabled: z.boolean().default(true),
+    maxRestarts: z.number().int().min(0).max(100).default(3),                  // per window; then it gives up
+    windowSeconds: z.number().int().min(60).max(86_400).default(600),
+    initialDelaySeconds: z.number().int().min(0).max(3600).default(5),         // doubled for each crash in the window
+    maxDelaySeconds: z.number().int().min(0).max(86_400).default(300),
+});
+
+export type RestartPolicy = z.infer<typeof restartPolicySchema>;
+
+/** worlds/<name>/launcher.json: how the GUI launches this world. */
+export const launchProfileSchema = z.object({
+    version: z.string().trim().min(1).optional(),   // pinned game version (see the version manager)
+    jar: z.string().trim().min(1).optional(),       // explicit jar, relative to the repo root; overrides version
+    xmx: memorySchema.default('4G'),
+    xms: memorySchema.optional(),                   // defaults to xmx, like run.sh
+    gcPreset: z.enum(Object.keys(GC_PRESETS) as [GcPreset, ...GcPreset[]]).default('default'),
+    jvmArgs: z.array(z.string().trim().min(1)).default([]),
+    port: z.number().int().min(1).max(65535).default(25565), // preferred; another is picked if busy
+    env: z
+        .record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Use letters, digits and _'), z.string())
+        .default({}),
+    restart: restartPolicySchema.prefault({}),
+});
+
+export type LaunchProfile = z.infer<typeof launchProfileSchema>;
+
+export const DEFAULT_LAUNCH_PROFILE: LaunchProfile = launchProfileSchema.parse({});
+
+/** Bytes in a JVM size like "4G" or "512m"; a bare number is bytes. Null if it doesn't parse. */
+export function memoryToBytes(size: string): number | null {
+    const m = /^(\d+)([KkMmGg]?)$/.exec(size.trim());
+    if (!m) return null;
+    const unit = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[m[2].toLowerCase() as '' | 'k' | 'm' | 'g'];
+    return Number(m[1]) * unit;
+}
+
+/** JVM options for a profile, before `-jar`. */
+export function jvmArgsFor(profile: LaunchProfile): string[] {
+    return [
+        `-Xms${profile.xms ?? profile.xmx}`,
+        `-Xmx${profile.xmx}`,
+        ...GC_PRESETS[profile.gcPreset],
+        ...profile.jvmArgs,
+    ];
+}
+
+/** Seconds to wait before restart number `attempt` (1-based) within the window. */
+export function restartDelaySeconds(policy: RestartPolicy, attempt: number): number {
+    return Math.min(policy.initialDelaySeconds * 2 ** Math.max(0, attempt - 1), policy.maxDelaySeconds);
+}
@@ -0,0 +1,278 @@
+import { spawn, ChildProcess } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import net, { AddressInfo } from 'net';
+import { PID_DIR, PUBLIC_DIR, ROOT_DIR, readPid, readLaunchProfile, seedServerProperties, worldDir, writeProcessRecord } from '@/lib/worlds';
+import { readProcStat } from '@/lib/procfs';
+import { LaunchProfile, jvmArgsFor, launchProfileSchema } from '@/lib/launchProfile';
+import { openConsoleLog, openStdinFifo, rotateConsoleLog } from '@/lib/console';
+import { findQueryPortClash, readQueryConfig } from '@/lib/query';
+import { downloadServerJar, fetchManifest, installVersion } from '@/lib/versions';
+import { JavaNotFoundError, resolveJavaFor, versionFromJarName } from '@/lib/java';
+import { JavaRuntime } from '@/lib/types';
+
+/** A start that could not go ahead; `status` is the HTTP status the start route answers with. */
+export class LaunchError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'LaunchError';
+    }
+}
+
+// Prefer files named server*.jar, else any *.jar; pick newest by mtime
+async function findExistingJar(dir: string): Promise<string | null> {
+    try {
+        const entries = await fs.readdir(dir, { withFileTypes: true });
+        const jars = entries
+            .filter(e => e.isFile() && e.name.toLowerCase().endsWith('.jar'))
+            .map(e => e.name);
+        if (!jars.length) return null;
+        const preferred = jars.filter(n => /^server.*\.jar$/i.test(n));
+        const list = preferred.length ? preferred : jars;
+        const stats = await Promise.all(
+            list.map(async n => ({
+                n,
+                t: (await fs.stat(path.join(dir, n))).mtimeMs,
+            }))
+        );
+        stats.sort((a, b) => b.t - a.t);
+        return path.join(dir, stats[0].n);
+    } catch {
+        return null;
+    }
+}
+
+// Download latest release server jar next to the others (what run.sh picks up)
+async function downloadLatestServerJar(
+    targetDir: string
+): Promise<{ jarPath: string; version: string }> {
+    const latestId = (await fetchManifest()).latest.release;
+    if (!latestId) throw new Error('No latest release in manifest');
+
+    const dest = path.join(targetDir, `server-${latestId}.jar`);
+    await downloadServerJar(latestId, dest);
+    return { jarPath: dest, version: latestId };
+}
+
+function resolveJarDir(jarDir: string | undefined): string {
+    if (!jarDir || jarDir === 'root') return ROOT_DIR;
+    if (jarDir === 'public') return PUBLIC_DIR;
+
+    // Limit: only allow subfolders under ROOT_DIR or GUI_DIR to avoid path traversal
+    const candidate = path.isAbsolute(jarDir)
+        ? jarDir
+        : path.join(ROOT_DIR, jarDir);
+    return candidate;
+}
+
+function checkPortAvailable(port: number, host = '0.0.0.0'): Promise<boolean> {
+    return new Promise((resolve) => {
+        const srv = net.createServer()
+            .once('error', () => resolve(false))
+            .once('listening', () => srv.close(() => resolve(true)));
+        // exclusive=true avoids portsharing oddities on some platforms
+        srv.listen({ port, host, exclusive: true });
+    });
+}
+
+function getEphemeralPort(host = '0.0.0.0'): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const srv = net.createServer();
+        srv.once('listening', () => {
+            const addr = srv.address();
+            const chosen = typeof addr === 'object' && addr !== null ? (addr as AddressInfo).port : 0;
+            srv.close(() => resolve(chosen));
+        });
+        srv.once('error', (err: unknown) => reject(err));
+        srv.listen({ port: 0, host, exclusive: true });
+    });
+}
+
+/** Try preferred; if taken, return an ephemeral free port. */
+async function findAvailablePort(preferred: number): Promise<{ port: number; autoPicked: boolean }> {
+    const ok = await checkPortAvailable(preferred);
+    if (ok) return { port: preferred, autoPicked: false };
+    const ephem = await getEphemeralPort();
+    return { port: ephem, autoPicked: true };
+}
+
+/** Per-start overrides of the world's launch profile (the start route's body). */
+export type LaunchOverrides = {
+    memory?: string;
+    serverJar?: string;
+    jarDir?: 'root' | 'public' | string;
+    port?: number;
+};
+
+/** What was started; the start route returns it as-is. */
+export type LaunchInfo = {
+    pid: number;
+    memory: string;
+    jar: string;
+    version: string | null;
+    java: { path: string; version: string };
+    jarDir: string;
+    requestedPort: number;
+    port: number;
+    portAutoPicked: boolean;
+};
+
+export type LaunchResult = { child: ChildProcess; info: LaunchInfo };
+
+/**
+ * Start a world's server from its launch profile (plus overrides): resolve the jar and a
+ * matching Java, pick a free port, then spawn it detached with console output in the log
+ * file and input from the stdin pipe. Throws LaunchError when the start is refused.
+ */
+export async function launchServer(name: string, overrides: LaunchOverrides = {}): Promise<LaunchResult> {
+    let profile: LaunchProfile;
+    try {
+        profile = await readLaunchProfile(name);
+    } catch (e) {
+        throw new LaunchError(e instanceof Error ? e.message : 'Invalid launch profile', 400);
+    }
+    if (overrides.memory !== undefined) {
+        if (!launchProfileSchema.shape.xmx.safeParse(overrides.memory).success) {
+            throw new LaunchError('Invalid memory size. Use a number with K, M or G (e.g. 4G).', 400);
+        }
+        profile = { ...profile, xms: overrides.memory, xmx: overrides.memory };
+    }
+    const requestedPort = overrides.port ?? profile.port;
+    const jarOverride = overrides.serverJar || profile.jar;
+
+    // Validate port input first (1–65535)
+    if (!Number.isInteger(requestedPort) || requestedPort < 1 || requestedPort > 65535) {
+        throw new LaunchError('Invalid port number. Must be between 1 and 65535.', 400);
+    }
+
+    await fs.mkdir(PID_DIR, { recursive: true });
+
+    // Bail if already running
+    if ((await readPid(name)) !== null) {
+        throw new LaunchError('Server already running for this world.', 409);
+    }
+
+    // Ensure world directory (and a server.properties so the settings card can edit it)
+    const worldPath = worldDir(name);
+    await fs.mkdir(worldPath, { recursive: true });
+    await seedServerProperties(name);
+
+    // Resolve server jar: explicit path, else the world's pinned version, else newest jar around
+    const targetJarDir = resolveJarDir(overrides.jarDir);
+    const pinnedVersion = jarOverride ? null : (profile.version ?? null);
+    let jarPath: string | null = null;
+    if (jarOverride) {
+        jarPath = path.isAbsolute(jarOverride) ? jarOverride : path.join(ROOT_DIR, jarOverride);
+    } else if (pinnedVersion) {
+        try {
+            jarPath = await installVersion(pinnedVersion);
+        } catch (e) {
+            const msg = e instanceof Error ? e.message : 'download failed';
+            throw new LaunchError(`Could not get pinned version ${pinnedVersion}: ${msg}`, 502);
+        }
+    } else {
+        jarPath = await findExistingJar(targetJarDir);
+        if (!jarPath) {
+            const result = await downloadLatestServerJar(targetJarDir);
+            jarPath = result.jarPath;
+        }
+    }
+
+    // Match the jar's Java requirement (pinned version, or guessed from a "server-<id>.jar" name)
+    const gameVersion = pinnedVersion ?? versionFromJarName(jarPath);
+    let java: JavaRuntime;
+    try {
+        ({ runtime: java } = await resolveJavaFor(gameVersion, { offline: !pinnedVersion }));
+    } catch (e) {
+        if (e instanceof JavaNotFoundError) throw new LaunchError(e.message, 422);
+        throw e;
+    }
+
+    // Pick a usable port (stick to requested if it's free)
+    let chosenPort: number;
+    let autoPicked = false;
+    try {
+        const res = await findAvailablePort(requestedPort);
+        chosenPort = res.port;
+        autoPicked = res.autoPicked;
+    } catch {
+        throw new LaunchError('Unable to allocate a free port.', 503);
+    }
+
+    // Two servers cannot both bind the same UDP query port
+    const query = await readQueryConfig(name);
+    if (query.enabled) {
+        const clash = await findQueryPortClash(name, query.port);
+        if (clash) {
+            throw new LaunchError(`Query port ${query.port} is already used by running world "${clash}". Change query.port.`, 409);
+        }
+    }
+
+    // Per-world server.properties sync (same as run.sh): the server reads ./server.properties
+    // from its cwd, so the world's copy decides RCON/query settings for this run
+    try {
+        await fs.copyFile(path.join(worldPath, 'server.properties'), path.join(ROOT_DIR, 'server.properties'));
+    } catch { /* no per-world file; keep whatever is at the root */ }
+
+    // Launch
+    const args = [
+        ...jvmArgsFor(profile),
+        '-jar',
+        jarPath,
+        'nogui',
+        '--world', worldPath,
+        '--port', String(chosenPort),
+    ];
+
+    // Console output goes straight to a per-world log file and input comes from a named
+    // pipe, so both outlive this process. Without a pipe the server starts with no console input
+    await rotateConsoleLog(name);
+    const log = await openConsoleLog(name);
+    const stdin = await openStdinFifo(name);
+    let child: ChildProcess;
+    try {
+        child = spawn(java.path, args, {
+            cwd: ROOT_DIR,
+            detached: true,
+            stdio: [stdin?.fd ?? 'ignore', log.fd, log.fd],
+            env: { ...process.env, ...profile.env },
+            windowsHide: true,
+            shell: false,
+        });
+    } finally {
+        // The child holds its own copies of the fds
+        await log.close();
+        await stdin?.close();
+    }
+    if (child.pid === undefined) {
+        // spawn reports failures like a missing binary asynchronously
+        const err = await new Promise<Error>((resolve) => child.once('error', resolve));
+        throw new LaunchError(`Error: ${err.message}`, 500);
+    }
+
+    // The start time pins the record to this exact process, so a reused pid is never mistaken for it
+    await writeProcessRecord({
+        world: name,
+        pid: child.pid,
+        startTicks: (await readProcStat(child.pid))?.startTicks ?? null,
+        startedAt: new Date().toISOString(),
+        cmdline: [java.path, ...args],
+        jar: jarPath,
+        port: chosenPort,
+        worldPath,
+    });
+    child.unref();
+
+    const info: LaunchInfo = {
+        pid: child.pid,
+        memory: profile.xmx,
+        jar: jarPath,
+        version: gameVersion,
+        java: { path: java.path, version: java.version },
+        jarDir: targetJarDir,
+        requestedPort,
+        port: chosenPort,
+        portAutoPicked: autoPicked, // true if requested was in use
+    };
+    return { child, info };
+}
@@ -0,0 +1,123 @@
+import { getServerStatus } from '@/lib/serverProcess';
+import { getCrashHistory } from '@/lib/supervisor';
+import { listBackups, readLastBackup } from '@/lib/backups';
+import { versionFromJarName } from '@/lib/java';
+import { listWorldNames, readPinnedVersion, readProcessRecord } from '@/lib/worlds';
+import { BackupInfo, CrashHistory, ServerStatus } from '@/lib/types';
+
+type Labels = Record<string, string>;
+type Sample = { labels: Labels; value: number };
+export type Metric = { name: string; help: string; type: 'gauge' | 'counter'; samples: Sample[] };
+
+type WorldSnapshot = {
+    labels: Labels;
+    status: ServerStatus;
+    crashes: CrashHistory;
+    lastBackup: Date | null;
+    backups: BackupInfo[];
+};
+
+// Status pings run in parallel; keep a scrape well under Prometheus' default 10s timeout
+const PING_TIMEOUT_MS = 2000;
+
+function escapeLabel(value: string) {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(v: number) {
+    if (Number.isNaN(v)) return 'NaN';
+    if (!Number.isFinite(v)) return v > 0 ? '+Inf' : '-Inf';
+    return String(v);
+}
+
+/** Prometheus text exposition format (version 0.0.4). */
+export function renderMetrics(metrics: Metric[]): string {
+    const lines: string[] = [];
+    for (const m of metrics) {
+        lines.push(`# HELP ${m.name} ${m.help}`, `# TYPE ${m.name} ${m.type}`);
+        for (const s of m.samples) {
+            const labels = Object.entries(s.labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',');
+            lines.push(`${m.name}${labels ? `{${labels}}` : ''} ${formatValue(s.value)}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+// Version label: the pinned version, else guessed from the running jar's name
+async function worldVersion(worldName: string): Promise<string> {
+    const pinned = await readPinnedVersion(worldName);
+    if (pinned) return pinned;
+    const jar = (await readProcessRecord(worldName))?.jar;
+    return (jar && versionFromJarName(jar)) || 'unknown';
+}
+
+async function snapshotWorld(worldName: string): Promise<WorldSnapshot> {
+    const [version, status, crashes, lastBackup, backups] = await Promise.all([
+        worldVersion(worldName),
+        getServerStatus(worldName, PING_TIMEOUT_MS),
+        getCrashHistory(worldName),
+        readLastBackup(worldName),
+        listBackups(worldName),
+    ]);
+    return { labels: { world: worldName, version }, status, crashes, lastBackup, backups };
+}
+
+/** Metrics for every world, labelled by world and version. */
+export async function collectMetrics(now = Date.now()): Promise<Metric[]> {
+    const worlds = await Promise.all((await listWorldNames()).map(snapshotWorld));
+
+    const metric = (
+        name: string,
+        type: Metric['type'],
+        help: string,
+        value: (w: WorldSnapshot) => number | null | undefined
+    ): Metric => ({
+        name,
+        help,
+        type,
+        samples: worlds.flatMap((w) => {
+            const v = value(w);
+            return v === null || v === undefined ? [] : [{ labels: w.labels, value: v }];
+        }),
+    });
+
+    return [
+        metric('minecraft_up', 'gauge', 'Whether the server process is running (1) or not (0).', (w) => (w.status.running ? 1 : 0)),
+        metric('minecraft_responding', 'gauge', 'Whether the server answered a status ping.', (w) => (w.status.responding ? 1 : 0)),
+        metric('minecraft_uptime_seconds', 'gauge', 'Seconds since the server process started.', (w) =>
+            w.status.resources?.uptimeMs != null ? w.status.resources.uptimeMs / 1000 : null
+        ),
+        // The exit history keeps the last 50 exits, so these are gauges rather than counters
+        metric('minecraft_restarts', 'gauge', 'Automatic restarts after a crash in the kept exit history.', (w) =>
+            w.crashes.exits.filter((e) => e.restart === 'restarted').length
+        ),
+        metric('minecraft_crashes', 'gauge', 'Crashes in the kept exit history.', (w) => w.crashes.exits.filter((e) => e.kind === 'crash').length),
+        metric('minecraft_crashes_in_window', 'gauge', "Crashes counted against the restart policy's limit.", (w) => w.crashes.crashesInWindow),
+        metric('minecraft_restart_pending', 'gauge', 'Whether a restart after a crash is scheduled.', (w) => (w.crashes.pendingRestartAt ? 1 : 0)),
+        metric('minecraft_process_cpu_seconds_total', 'counter', 'User and system CPU time of the server process.', (w) =>
+            w.status.resources?.cpuSeconds
+        ),
+        metric('minecraft_process_cpu_percent', 'gauge', 'CPU use of the server process; 100 is one core.', (w) =>
+            w.status.resources?.cpuPercent
+        ),
+        metric('minecraft_process_resident_memory_bytes', 'gauge', 'Resident memory of the server process.', (w) =>
+            w.status.resources?.rssBytes
+        ),
+        metric('minecraft_process_max_heap_bytes', 'gauge', 'The -Xmx the server was launched with.', (w) =>
+            w.status.resources?.maxHeapBytes
+        ),
+        metric('minecraft_players_online', 'gauge', 'Players online, from the status ping.', (w) => w.status.ping?.players.online),
+        metric('minecraft_players_max', 'gauge', 'Player slots, from the status ping.', (w) => w.status.ping?.players.max),
+        metric('minecraft_last_backup_timestamp_seconds', 'gauge', 'Unix time of the last backup.', (w) =>
+            w.lastBackup ? Math.floor(w.lastBackup.getTime() / 1000) : null
+        ),
+        metric('minecraft_last_backup_age_seconds', 'gauge', 'Seconds since the last backup.', (w) =>
+            w.lastBackup ? Math.max(0, Math.floor((now - w.lastBackup.getTime()) / 1000)) : null
+        ),
+        metric('minecraft_last_backup_size_bytes', 'gauge', 'Size of the newest backup archive.', (w) => w.backups[0]?.sizeBytes),
+        metric('minecraft_backups_size_bytes', 'gauge', 'Total size of all backup archives of the world.', (w) =>
+            w.backups.reduce((sum, b) => sum + b.sizeBytes, 0)
+        ),
+        metric('minecraft_backups_count', 'gauge', 'Number of backup archives of the world.', (w) => w.backups.length),
+    ];
+}
@@ -0,0 +1,173 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getRconClient } from '@/lib/rcon';
+import { getServerStatus } from '@/lib/serverProcess';
+import { ROOT_DIR, listWorldNames } from '@/lib/worlds';
+import { MetricsRange, MetricsSample } from '@/lib/types';
+
+export const METRICS_DIR = path.join(ROOT_DIR, '.mc-metrics');
+
+// Seconds between samples of each running world (MC_METRICS_INTERVAL_SECONDS; 0 turns sampling off)
+const envInterval = Number.parseInt(process.env.MC_METRICS_INTERVAL_SECONDS ?? '', 10);
+export const SAMPLE_INTERVAL_SECONDS = Number.isInteger(envInterval) && envInterval >= 0 ? envInterval : 30;
+
+const HOUR = 3600_000;
+const DAY = 24 * HOUR;
+const COMPACT_EVERY_MS = HOUR;
+
+// Kept resolution by age: raw for a day, 5-minute averages for a week, hourly for a month, then dropped
+const TIERS = [
+    { olderThan: 7 * DAY, bucketMs: HOUR },
+    { olderThan: DAY, bucketMs: 5 * 60_000 },
+];
+const RETENTION_MS = 30 * DAY;
+
+export const RANGES: Record<MetricsRange, number> = { '1h': HOUR, '24h': DAY, '7d': 7 * DAY };
+// Charts don't need more points than this
+const MAX_POINTS = 300;
+
+const FIELDS = ['players', 'maxPlayers', 'rssBytes', 'cpuPercent', 'tps'] as const;
+
+// .mc-metrics/<world>.jsonl, one sample per line, oldest first
+function historyFile(worldName: string) {
+    return path.join(METRICS_DIR, `${worldName}.jsonl`);
+}
+
+export async function readSamples(worldName: string): Promise<MetricsSample[]> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(historyFile(worldName), 'utf8');
+    } catch {
+        return [];
+    }
+    const samples: MetricsSample[] = [];
+    for (const line of raw.split('\n')) {
+        if (!line) continue;
+        try {
+            const s = JSON.parse(line) as MetricsSample;
+            if (Number.isFinite(s.t)) samples.push(s);
+        } catch { /* torn last line after a crash */ }
+    }
+    return samples;
+}
+
+async function appendSample(worldName: string, sample: MetricsSample) {
+    await fs.mkdir(METRICS_DIR, { recursive: true });
+    await fs.appendFile(historyFile(worldName), JSON.stringify(sample) + '\n', 'utf8');
+}
+
+/** Average samples into buckets of `bucketMs`; nulls are left out of each average. */
+export function downsample(samples: MetricsSample[], bucketMs: number): MetricsSample[] {
+    const buckets = new Map<number, MetricsSample[]>();
+    for (const s of samples) {
+        const key = Math.floor(s.t / bucketMs) * bucketMs;
+        const list = buckets.get(key);
+        if (list) list.push(s);
+        else buckets.set(key, [s]);
+    }
+    const out: MetricsSample[] = [];
+    for (const [t, list] of [...buckets.entries()].sort((a, b) => a[0] - b[0])) {
+        const avg = { t, span: bucketMs } as MetricsSample;
+        for (const f of FIELDS) {
+            const values = list.map((s) => s[f]).filter((v): v is number => typeof v === 'number');
+            avg[f] = values.length ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 100) / 100 : null;
+        }
+        out.push(avg);
+    }
+    return out;
+}
+
+/** Rewrite a world's file at the kept resolution for each age, dropping what is past retention. */
+export async function compactSamples(worldName: string, now = Date.now()) {
+    const all = await readSamples(worldName);
+    if (!all.length) return;
+    const samples = all.filter((s) => s.t >= now - RETENTION_MS);
+    const kept: MetricsSample[] = [];
+    let rest = samples;
+    for (const tier of TIERS) {
+        const cutoff = now - tier.olderThan;
+        kept.push(...downsample(rest.filter((s) => s.t < cutoff), tier.bucketMs));
+        rest = rest.filter((s) => s.t >= cutoff);
+    }
+    kept.push(...rest);
+
+    const tmp = `${historyFile(worldName)}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, kept.map((s) => JSON.stringify(s)).join('\n') + (kept.length ? '\n' : ''), 'utf8');
+    await fs.rename(tmp, historyFile(worldName));
+}
+
+/** Samples of the last `range`, averaged down to at most a few hundred points. */
+export async function querySamples(worldName: string, range: MetricsRange, now = Date.now()): Promise<MetricsSample[]> {
+    const since = now - RANGES[range];
+    const samples = (await readSamples(worldName)).filter((s) => s.t >= since);
+    const bucketMs = Math.ceil(RANGES[range] / MAX_POINTS);
+    return samples.length > MAX_POINTS ? downsample(samples, bucketMs) : samples;
+}
+
+// Ticks per second over RCON: vanilla `tick query` (1.20.3+) reports the average tick time, Paper's `tps` the rate itself
+async function readTps(worldName: string): Promise<number | null> {
+    const client = await getRconClient(worldName);
+    if (!client) return null;
+    try {
+        const out = (await client.command('tick query')).replace(/§./g, '');
+        const mspt = /Average time per tick: ([\d.]+)ms/i.exec(out);
+        if (mspt) {
+            const target = Number(/Target tick rate: ([\d.]+)/i.exec(out)?.[1] ?? 20);
+            return Math.round(Math.min(target, 1000 / Math.max(Number(mspt[1]), 0.001)) * 100) / 100;
+        }
+        const paper = /TPS from last [^:]*:\s*\*?([\d.]+)/i.exec((await client.command('tps')).replace(/§./g, ''));
+        return paper ? Number(paper[1]) : null;
+    } catch {
+        return null;
+    }
+}
+
+async function sampleWorld(worldName: string, now: number): Promise<MetricsSample | null> {
+    const status = await getServerStatus(worldName);
+    if (status.state !== 'running') return null;
+    return {
+        t: now,
+        players: status.ping?.players.online ?? null,
+        maxPlayers: status.ping?.players.max ?? null,
+        rssBytes: status.resources?.rssBytes ?? null,
+        cpuPercent: status.resources?.cpuPercent ?? null,
+        tps: status.responding ? await readTps(worldName) : null,
+    };
+}
+
+// Sampler state hangs off globalThis so dev-mode module reloads don't start a second loop
+type SamplerState = {
+    timer: ReturnType<typeof setInterval> | null;
+    running: boolean;
+    lastCompaction: number;
+};
+const g = globalThis as typeof globalThis & { __mcMetricsSampler?: SamplerState };
+const state: SamplerState = (g.__mcMetricsSampler ??= { timer: null, running: false, lastCompaction: 0 });
+
+export async function sampleRunningWorlds(now = Date.now()) {
+    if (state.running) return;
+    state.running = true;
+    try {
+        const compact = now - state.lastCompaction >= COMPACT_EVERY_MS;
+        for (const name of await listWorldNames()) {
+            try {
+                const sample = await sampleWorld(name, now);
+                if (sample) await appendSample(name, sample);
+                if (compact) await compactSamples(name, now);
+            } catch (e) {
+                console.error(`Metrics sample for "${name}" failed:`, e);
+            }
+        }
+        if (compact) state.lastCompaction = now;
+    } finally {
+        state.running = false;
+    }
+}
+
+export function startMetricsSampler() {
+    if (state.timer || SAMPLE_INTERVAL_SECONDS === 0) return;
+    state.timer = setInterval(() => {
+        sampleRunningWorlds().catch((e) => console.error('Metrics sampler error:', e));
+    }, SAMPLE_INTERVAL_SECONDS * 1000);
+    state.timer.unref?.();
+}
@@ -0,0 +1,222 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { parsePropertiesText, toPropertyString } from '@/lib/properties';
+import { validateServerProps } from '@/lib/serverProps';
+import {
+    DEFAULT_SERVER_PROPERTIES,
+    ROOT_DIR,
+    readWorldProperties,
+    updateWorldProperties,
+    validateWorldName,
+    worldDir,
+} from '@/lib/worlds';
+import { PresetApplyResult, PropertyChange, PropertyPreset } from '@/lib/types';
+
+export const PRESETS_DIR = path.join(ROOT_DIR, 'presets');
+
+// Keys that belong to one world or one listener; left out when a preset is captured from a file,
+// so applying it can't point two worlds at the same folder or port
+export const WORLD_SPECIFIC_KEYS = ['level-name', 'level-seed', 'server-ip', 'server-port', 'query.port', 'rcon.port', 'rcon.password'];
+
+export class PresetError extends Error {
+    constructor(message: string, readonly status: number, readonly fieldErrors?: Record<string, string[]>) {
+        super(message);
+        this.name = 'PresetError';
+    }
+}
+
+const presetFileSchema = z.object({
+    name: z.string(),
+    description: z.string().default(''),
+    source: z.string().default('manual'),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    properties: z.record(z.string(), z.string()),
+});
+
+// Same rules as world names, so a preset name is always a safe file name
+export function validatePresetName(name: string): boolean {
+    return /^[A-Za-z0-9._-]+$/.test(name) && name !== '.' && name !== '..';
+}
+
+function presetFile(name: string) {
+    return path.join(PRESETS_DIR, `${name}.json`);
+}
+
+export async function readPreset(name: string): Promise<PropertyPreset | null> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(presetFile(name), 'utf8');
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw e;
+    }
+    let json: unknown;
+    try {
+        json = JSON.parse(raw);
+    } catch {
+        throw new PresetError(`presets/${name}.json is not valid JSON`, 500);
+    }
+    const parsed = presetFileSchema.safeParse(json);
+    if (!parsed.success) throw new PresetError(`presets/${name}.json is not a valid preset`, 500);
+    return { ...parsed.data, name };
+}
+
+/** Every preset in presets/, by name; unreadable files are skipped. */
+export async function listPresets(): Promise<PropertyPreset[]> {
+    let files: string[];
+    try {
+        files = await fs.readdir(PRESETS_DIR);
+    } catch {
+        return [];
+    }
+    const presets: PropertyPreset[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json')).sort()) {
+        const name = file.slice(0, -'.json'.length);
+        if (!validatePresetName(name)) continue;
+        try {
+            const preset = await readPreset(name);
+            if (preset) presets.push(preset);
+        } catch (e) {
+            console.error(`Skipping preset ${file}:`, e);
+        }
+    }
+    return presets;
+}
+
+async function writePreset(preset: PropertyPreset) {
+    await fs.mkdir(PRESETS_DIR, { recursive: true });
+    const tmp = `${presetFile(preset.name)}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(preset, null, 2) + '\n', 'utf8');
+    await fs.rename(tmp, presetFile(preset.name));
+}
+
+export async function deletePreset(name: string): Promise<boolean> {
+    try {
+        await fs.unlink(presetFile(name));
+        return true;
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return false;
+        throw e;
+    }
+}
+
+// Checked like a server.properties write and stored as the strings the file will hold
+function presetValues(props: Record<string, unknown>): Record<string, string> {
+    const { values, fieldErrors } = validateServerProps(props);
+    for (const [key, value] of Object.entries(values)) {
+        if (value === null) fieldErrors[key] = ['A preset sets keys; it cannot remove them'];
+    }
+    if (Object.keys(fieldErrors).length) throw new PresetError('Invalid preset properties', 422, fieldErrors);
+    return Object.fromEntries(Object.entries(values).map(([k, v]) => [k, toPropertyString(v)]));
+}
+
+export type CreatePresetOptions = {
+    description?: string;
+    fromWorld?: string;                        // capture this world's server.properties
+    properties?: Record<string, unknown>;      // or give the values; neither captures default-server.properties
+    keys?: string[];                           // only these keys (default: all but WORLD_SPECIFIC_KEYS when capturing)
+};
+
+export async function createPreset(name: string, options: CreatePresetOptions = {}): Promise<PropertyPreset> {
+    if (!validatePresetName(name)) throw new PresetError('Invalid preset name', 400);
+    if (await fs.stat(presetFile(name)).catch(() => null)) throw new PresetError(`Preset "${name}" already exists`, 409);
+
+    let source: string;
+    let props: Record<string, unknown>;
+    if (options.properties) {
+        source = 'manual';
+        props = options.properties;
+    } else if (options.fromWorld) {
+        if (!validateWorldName(options.fromWorld)) throw new PresetError('Invalid world name', 400);
+        const current = await readWorldProperties(options.fromWorld);
+        if (!current) throw new PresetError(`server.properties not found for world "${options.fromWorld}"`, 404);
+        source = `world:${options.fromWorld}`;
+        props = current;
+    } else {
+        source = 'defaults';
+        props = parsePropertiesText(await fs.readFile(DEFAULT_SERVER_PROPERTIES, 'utf8'));
+    }
+
+    const keys = options.keys ?? (source === 'manual' ? null : Object.keys(props).filter((k) => !WORLD_SPECIFIC_KEYS.includes(k)));
+    if (keys) props = Object.fromEntries(keys.filter((k) => Object.hasOwn(props, k)).map((k) => [k, props[k]]));
+
+    const now = new Date().toISOString();
+    const preset: PropertyPreset = {
+        name,
+        description: options.description?.trim() ?? '',
+        source,
+        createdAt: now,
+        updatedAt: now,
+        properties: presetValues(props),
+    };
+    await writePreset(preset);
+    return preset;
+}
+
+/** Replace a preset's description and/or its whole set of properties. */
+export async function updatePreset(
+    name: string,
+    update: { description?: string; properties?: Record<string, unknown> }
+): Promise<PropertyPreset> {
+    const preset = await readPreset(name);
+    if (!preset) throw new PresetError(`Preset "${name}" not found`, 404);
+    const next: PropertyPreset = {
+        ...preset,
+        description: update.description?.trim() ?? preset.description,
+        properties: update.properties ? presetValues(update.properties) : preset.properties,
+        updatedAt: new Date().toISOString(),
+    };
+    await writePreset(next);
+    return next;
+}
+
+/** Keys the preset would change in a world's server.properties, in the preset's order. */
+export function diffPreset(preset: PropertyPreset, current: Record<string, string>): PropertyChange[] {
+    return Object.entries(preset.properties)
+        .filter(([key, value]) => current[key] !== value)
+        .map(([key, value]) => ({ key, from: Object.hasOwn(current, key) ? current[key] : null, to: value }));
+}
+
+/**
+ * Preview (dryRun) or apply a preset to worlds. Each world is written through
+ * updateWorldProperties, the same validated path as PUT /api/server-properties.
+ */
+export async function applyPreset(
+    name: string,
+    worlds: string[],
+    { dryRun = false, author = null }: { dryRun?: boolean; author?: string | null } = {}
+): Promise<PresetApplyResult[]> {
+    const preset = await readPreset(name);
+    if (!preset) throw new PresetError(`Preset "${name}" not found`, 404);
+
+    const results: PresetApplyResult[] = [];
+    for (const world of worlds) {
+        if (!validateWorldName(world)) {
+            results.push({ world, changes: [], applied: false, error: 'Invalid world name' });
+            continue;
+        }
+        const current = await readWorldProperties(world);
+        if (!current) {
+            const missing = (await fs.stat(worldDir(world)).catch(() => null)) ? 'server.properties not found' : 'World not found';
+            results.push({ world, changes: [], applied: false, error: missing });
+            continue;
+        }
+        const changes = diffPreset(preset, current);
+        if (dryRun || !changes.length) {
+            results.push({ world, changes, applied: false });
+            continue;
+        }
+        const fieldErrors = await updateWorldProperties(world, Object.fromEntries(changes.map((c) => [c.key, c.to])), {
+            author,
+            note: `Applied preset ${name}`,
+        });
+        results.push(
+            fieldErrors
+                ? { world, changes, applied: false, error: 'Invalid server properties', fieldErrors }
+                : { world, changes, applied: true }
+        );
+    }
+    return results;
+}
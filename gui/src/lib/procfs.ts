@@ -0,0 +1,90 @@
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+
+// Linux only; elsewhere callers fall back to a plain signal-0 liveness check
+export const HAS_PROCFS = existsSync('/proc/self/stat');
+
+/** The fields we use from /proc/<pid>/stat. Times are in clock ticks. */
+export type ProcStat = {
+    state: string;          // R, S, D, Z (zombie), ...
+    ppid: number;
+    utimeTicks: number;
+    stimeTicks: number;
+    numThreads: number;
+    startTicks: number;     // since boot; with the pid it identifies a process across pid reuse
+    rssPages: number;
+};
+
+export async function readProcStat(pid: number): Promise<ProcStat | null> {
+    if (!HAS_PROCFS || !Number.isInteger(pid) || pid <= 0) return null;
+    let raw: string;
+    try {
+        raw = await fs.readFile(`/proc/${pid}/stat`, 'utf8');
+    } catch {
+        return null;
+    }
+    // comm (field 2) is in parentheses and may itself contain spaces or ')'
+    const f = raw.slice(raw.lastIndexOf(')') + 2).split(' ');
+    // f[0] is field 3 (state), so field n is f[n - 3]
+    return {
+        state: f[0],
+        ppid: Number(f[1]),
+        utimeTicks: Number(f[11]),
+        stimeTicks: Number(f[12]),
+        numThreads: Number(f[17]),
+        startTicks: Number(f[19]),
+        rssPages: Number(f[21]),
+    };
+}
+
+/** argv of a process, or null when it is gone (or has none, like a zombie). */
+export async function readProcCmdline(pid: number): Promise<string[] | null> {
+    if (!HAS_PROCFS) return null;
+    try {
+        const raw = await fs.readFile(`/proc/${pid}/cmdline`, 'utf8');
+        const args = raw.split('\0');
+        if (args[args.length - 1] === '') args.pop();
+        return args.length ? args : null;
+    } catch {
+        return null;
+    }
+}
+
+// USER_HZ: the unit of /proc times; 100 on every mainstream Linux build
+export const CLOCK_TICKS_PER_SEC = 100;
+
+/** Resident memory and thread count from /proc/<pid>/status. */
+export async function readProcStatus(pid: number): Promise<{ rssBytes: number; threads: number } | null> {
+    if (!HAS_PROCFS) return null;
+    let raw: string;
+    try {
+        raw = await fs.readFile(`/proc/${pid}/status`, 'utf8');
+    } catch {
+        return null;
+    }
+    const field = (name: string) => Number(new RegExp(`^${name}:\\s+(\\d+)`, 'm').exec(raw)?.[1] ?? NaN);
+    const rssKb = field('VmRSS');
+    const threads = field('Threads');
+    return { rssBytes: Number.isFinite(rssKb) ? rssKb * 1024 : 0, threads: Number.isFinite(threads) ? threads : 0 };
+}
+
+/** Number of open file descriptors, or null when /proc/<pid>/fd can't be read (another user's process). */
+export async function countOpenFds(pid: number): Promise<number | null> {
+    if (!HAS_PROCFS) return null;
+    try {
+        return (await fs.readdir(`/proc/${pid}/fd`)).length;
+    } catch {
+        return null;
+    }
+}
+
+/** Boot time in ms since the epoch (btime in /proc/stat); process start ticks count from here. */
+export async function readBootTimeMs(): Promise<number | null> {
+    if (!HAS_PROCFS) return null;
+    try {
+        const btime = /^btime\s+(\d+)/m.exec(await fs.readFile('/proc/stat', 'utf8'))?.[1];
+        return btime ? Number(btime) * 1000 : null;
+    } catch {
+        return null;
+    }
+}
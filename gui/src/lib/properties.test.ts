@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+    parsePropertiesDocument,
+    parsePropertiesText,
+    patchPropertiesText,
+    stringifyPropertiesDocument,
+} from '@/lib/properties';
+
+const DEFAULT_FILE = path.join(__dirname, '../../public/default-server.properties');
+const defaults = fs.readFileSync(DEFAULT_FILE, 'utf8');
+
+function keysInOrder(text: string) {
+    return Object.keys(parsePropertiesText(text));
+}
+
+describe('default-server.properties', () => {
+    it('round-trips byte for byte', () => {
+        expect(stringifyPropertiesDocument(parsePropertiesDocument(defaults))).toBe(defaults);
+    });
+
+    it('is unchanged by a patch that sets every key to its current value', () => {
+        expect(patchPropertiesText(defaults, parsePropertiesText(defaults))).toBe(defaults);
+        expect(patchPropertiesText(defaults, {})).toBe(defaults);
+    });
+
+    it('rewrites only the line of a changed key', () => {
+        const out = patchPropertiesText(defaults, { 'max-players': 42 });
+        const before = defaults.split('\n');
+        const after = out.split('\n');
+        expect(after).toHaveLength(before.length);
+        const changed = after.flatMap((line, i) => (line === before[i] ? [] : [[before[i], line]]));
+        expect(changed).toEqual([['max-players=20', 'max-players=42']]);
+        expect(after[0]).toBe('#Minecraft server properties');
+        expect(keysInOrder(out)).toEqual(keysInOrder(defaults));
+    });
+
+    it('keeps the escaped colon in level-type', () => {
+        expect(defaults).toContain('level-type=minecraft\\:normal');
+        expect(parsePropertiesText(defaults)['level-type']).toBe('minecraft:normal');
+
+        const out = patchPropertiesText(defaults, { motd: 'Hi' });
+        expect(out).toContain('level-type=minecraft\\:normal');
+
+        const flat = patchPropertiesText(defaults, { 'level-type': 'minecraft:flat' });
+        expect(flat).toContain('level-type=minecraft\\:flat');
+        expect(parsePropertiesText(flat)['level-type']).toBe('minecraft:flat');
+    });
+});
+
+describe('line continuations', () => {
+    const text = [
+        '# comment ending in a backslash \\',
+        'motd=first \\',
+        '    second \\',
+        '    third',
+        'max-players=20',
+        '',
+    ].join('\n');
+
+    it('joins continued lines and drops their leading whitespace', () => {
+        const props = parsePropertiesText(text);
+        expect(props.motd).toBe('first second third');
+        expect(props['max-players']).toBe('20');
+        expect(Object.keys(props)).toEqual(['motd', 'max-players']);
+    });
+
+    it('keeps a continued entry as written when another key changes', () => {
+        const out = patchPropertiesText(text, { 'max-players': 10 });
+        expect(out).toBe(text.replace('max-players=20', 'max-players=10'));
+    });
+
+    it('collapses a continued entry to one line when it changes', () => {
+        const out = patchPropertiesText(text, { motd: 'one line' });
+        expect(out).toBe(['# comment ending in a backslash \\', 'motd=one line', 'max-players=20', ''].join('\n'));
+    });
+
+    it('treats an even run of backslashes as an escaped backslash, not a continuation', () => {
+        const props = parsePropertiesText('path=C\\:\\\\\nnext=1\n');
+        expect(props).toEqual({ path: 'C:\\', next: '1' });
+    });
+});
+
+describe('line endings', () => {
+    it('keeps each line its own ending and uses CRLF for added keys in a CRLF file', () => {
+        const text = 'a=1\r\nb=2\nc=3';
+        expect(patchPropertiesText(text, { b: 5 })).toBe('a=1\r\nb=5\nc=3');
+        expect(patchPropertiesText(text, { d: 4 })).toBe('a=1\r\nb=2\nc=3\r\nd=4\r\n');
+    });
+});
@@ -0,0 +1,167 @@
+// Java .properties reading and writing that keeps the file as written: comments, blank lines,
+// ordering, line continuations and unknown keys survive, and only changed keys are rewritten.
+// Follows java.util.Properties load/store, which is what the server itself uses.
+
+// raw: the physical lines with their own line endings, continuations included
+type Line =
+    | { kind: 'blank' | 'comment'; raw: string[] }
+    | { kind: 'entry'; key: string; value: string; raw: string[] };
+
+export type PropertiesDocument = {
+    lines: Line[];
+    eol: '\n' | '\r\n';     // for lines we add
+};
+
+const ESCAPES: Record<string, string> = { t: '\t', n: '\n', r: '\r', f: '\f' };
+
+function unescape(s: string): string {
+    return s.replace(/\\(u[0-9a-fA-F]{4}|[\s\S])/g, (_, c: string) => {
+        if (c.length === 5) return String.fromCharCode(Number.parseInt(c.slice(1), 16));
+        return ESCAPES[c] ?? c;
+    });
+}
+
+function escape(s: string, isKey: boolean): string {
+    let out = '';
+    for (let i = 0; i < s.length; i++) {
+        const c = s[i];
+        if (c === '\\') out += '\\\\';
+        else if (c === '\t') out += '\\t';
+        else if (c === '\n') out += '\\n';
+        else if (c === '\r') out += '\\r';
+        else if (c === '\f') out += '\\f';
+        // Spaces only need escaping where load would skip them: anywhere in a key, leading in a value
+        else if (c === ' ' && (isKey || i === 0)) out += '\\ ';
+        else if ('=:#!'.includes(c)) out += `\\${c}`;
+        else out += c;
+    }
+    return out;
+}
+
+/** Java's Properties.store escaping for a value; the server writes "minecraft\:normal". */
+export function escapePropertyValue(value: string): string {
+    return escape(value, false);
+}
+
+export function escapePropertyKey(key: string): string {
+    return escape(key, true);
+}
+
+// A line continues onto the next when it ends in an odd number of backslashes
+function continues(line: string): boolean {
+    const m = /\\+$/.exec(line);
+    return !!m && m[0].length % 2 === 1;
+}
+
+// Split a logical line (continuations joined) into key and still-escaped value
+function splitEntry(logical: string): { key: string; value: string } {
+    let i = 0;
+    let key = '';
+    while (i < logical.length) {
+        const c = logical[i];
+        if (c === '\\' && i + 1 < logical.length) {
+            key += logical.slice(i, i + 2);
+            i += 2;
+            continue;
+        }
+        if (c === '=' || c === ':' || c === ' ' || c === '\t' || c === '\f') break;
+        key += c;
+        i++;
+    }
+    // Whitespace, then at most one separator, then whitespace
+    while (i < logical.length && ' \t\f'.includes(logical[i])) i++;
+    if (i < logical.length && (logical[i] === '=' || logical[i] === ':')) i++;
+    while (i < logical.length && ' \t\f'.includes(logical[i])) i++;
+    return { key: unescape(key), value: unescape(logical.slice(i)) };
+}
+
+export function parsePropertiesDocument(text: string): PropertiesDocument {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const physical = text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+    const content = (line: string) => line.replace(/\r?\n$/, '');
+
+    const lines: Line[] = [];
+    for (let i = 0; i < physical.length; i++) {
+        const first = physical[i];
+        const trimmed = content(first).replace(/^[ \t\f]+/, '');
+        if (!trimmed) {
+            lines.push({ kind: 'blank', raw: [first] });
+            continue;
+        }
+        // Comments never continue, even when they end in a backslash
+        if (trimmed.startsWith('#') || trimmed.startsWith('!')) {
+            lines.push({ kind: 'comment', raw: [first] });
+            continue;
+        }
+        const raw = [first];
+        let logical = trimmed;
+        while (continues(logical) && i + 1 < physical.length) {
+            i++;
+            raw.push(physical[i]);
+            logical = logical.slice(0, -1) + content(physical[i]).replace(/^[ \t\f]+/, '');
+        }
+        if (continues(logical)) logical = logical.slice(0, -1); // continuation at end of file
+        lines.push({ kind: 'entry', raw, ...splitEntry(logical) });
+    }
+    return { lines, eol };
+}
+
+export function stringifyPropertiesDocument(doc: PropertiesDocument): string {
+    return doc.lines.flatMap((l) => l.raw).join('');
+}
+
+/** Key/value pairs with escapes resolved ("minecraft\:normal" → "minecraft:normal"); a repeated key keeps its last value. */
+export function propertiesOf(doc: PropertiesDocument): Record<string, string> {
+    const out: Record<string, string> = {};
+    for (const l of doc.lines) if (l.kind === 'entry') out[l.key] = l.value;
+    return out;
+}
+
+/**
+ * Set a key. An unchanged value leaves the line exactly as it was; a changed one is rewritten
+ * in place (the last occurrence, the one that counts); a new key is appended.
+ */
+export function setProperty(doc: PropertiesDocument, key: string, value: string) {
+    const entries = doc.lines.filter((l): l is Extract<Line, { kind: 'entry' }> => l.kind === 'entry' && l.key === key);
+    const last = entries[entries.length - 1];
+    if (last?.value === value) return;
+    const line = `${escapePropertyKey(key)}=${escapePropertyValue(value)}`;
+    if (last) {
+        const ending = /\r?\n$/.exec(last.raw[last.raw.length - 1])?.[0] ?? '';
+        Object.assign(last, { value, raw: [line + ending] });
+        return;
+    }
+    // Appending: end the current last line first if the file had no final newline
+    const tail = doc.lines[doc.lines.length - 1]?.raw;
+    if (tail && !tail[tail.length - 1].endsWith('\n')) tail[tail.length - 1] += doc.eol;
+    doc.lines.push({ kind: 'entry', key, value, raw: [line + doc.eol] });
+}
+
+/** Drop every line that sets the key. */
+export function deleteProperty(doc: PropertiesDocument, key: string) {
+    doc.lines = doc.lines.filter((l) => l.kind !== 'entry' || l.key !== key);
+}
+
+export function parsePropertiesText(text: string): Record<string, string> {
+    return propertiesOf(parsePropertiesDocument(text));
+}
+
+export function toPropertyString(v: unknown): string {
+    if (typeof v === 'boolean') return v ? 'true' : 'false';
+    if (typeof v === 'number') return String(v);
+    return String(v ?? '');
+}
+
+/**
+ * Apply a patch to properties text: changed keys are rewritten in place, new ones appended,
+ * null removes a key, and everything else (comments, order, formatting) is left alone.
+ */
+export function patchPropertiesText(text: string, patch: Record<string, unknown>): string {
+    const doc = parsePropertiesDocument(text);
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === undefined) continue;
+        if (value === null) deleteProperty(doc, key);
+        else setProperty(doc, key, toPropertyString(value));
+    }
+    return stringifyPropertiesDocument(doc);
+}
@@ -0,0 +1,46 @@
+import dgram from 'dgram';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { QueryError, queryBasic } from '@/lib/query';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('queryBasic', () => {
+    it('rejects instead of crashing when the socket errors between requests', async () => {
+        // Answers the handshake only
+        const server = dgram.createSocket('udp4');
+        server.on('message', (msg, from) => {
+            if (msg[2] !== 0x09) return;
+            const reply = Buffer.concat([msg.subarray(2, 7), Buffer.from('12345\0')]);
+            server.send(reply, from.port, from.address);
+        });
+        await new Promise<void>((resolve) => server.bind(0, '127.0.0.1', resolve));
+        const { port } = server.address();
+
+        const createSocket = dgram.createSocket.bind(dgram);
+        vi.spyOn(dgram, 'createSocket').mockImplementation(((type: dgram.SocketType) => {
+            const socket = createSocket(type);
+            // As from a failed send, right after the handshake reply and before the stat request
+            socket.once('message', () => {
+                process.nextTick(() => socket.emit('error', Object.assign(new Error('send EADDRNOTAVAIL'), { code: 'EADDRNOTAVAIL' })));
+            });
+            return socket;
+        }) as typeof dgram.createSocket);
+
+        try {
+            const err = await queryBasic({ host: '127.0.0.1', port, timeoutMs: 2000 }).catch((e: unknown) => e);
+            expect(err).toBeInstanceOf(QueryError);
+            expect((err as QueryError).code).toBe('PROTOCOL');
+            expect((err as QueryError).message).toContain('EADDRNOTAVAIL');
+        } finally {
+            server.close();
+        }
+    });
+
+    it('times out when nothing answers', async () => {
+        const err = await queryBasic({ host: '127.0.0.1', port: 9, timeoutMs: 200 }).catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(QueryError);
+        expect((err as QueryError).code).toBe('TIMEOUT');
+    });
+});
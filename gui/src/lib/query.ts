@@ -0,0 +1,218 @@
+import dgram from 'dgram';
+import { chatToPlainText } from '@/lib/slp';
+import { ServerQuery } from '@/lib/types';
+import { getServerState } from '@/lib/serverProcess';
+import { listWorldNames, readWorldProperties } from '@/lib/worlds';
+
+// GameSpy4 UDP query as implemented by the vanilla server (enable-query=true):
+// requests are FE FD <type> <int32 session id> <payload>, replies are <type> <int32 session id> <payload>
+const MAGIC = Buffer.from([0xfe, 0xfd]);
+const TYPE_HANDSHAKE = 0x09;
+const TYPE_STAT = 0x00;
+// Constant padding around the full stat's key/value section and player section
+const KV_PADDING = 11;     // "splitnum\0\x80\0"
+const PLAYER_PADDING = 10; // "\x01player_\0\0"
+
+export interface QueryOptions {
+    host: string;
+    port: number;
+    timeoutMs?: number;
+}
+
+export class QueryError extends Error {
+    constructor(message: string, readonly code: 'TIMEOUT' | 'PROTOCOL' | 'CONFIG') {
+        super(message);
+        this.name = 'QueryError';
+    }
+}
+
+export type BasicStat = {
+    motd: string;
+    gameType: string;
+    map: string;
+    numPlayers: number;
+    maxPlayers: number;
+    hostPort: number;
+    hostIp: string;
+};
+
+function request(type: number, sessionId: number, payload: Buffer = Buffer.alloc(0)): Buffer {
+    const head = Buffer.alloc(5);
+    head[0] = type;
+    head.writeInt32BE(sessionId, 1);
+    return Buffer.concat([MAGIC, head, payload]);
+}
+
+// Null-terminated strings in a reply; `offset` is advanced past each one
+function reader(buf: Buffer, offset: number) {
+    return {
+        string(): string {
+            const end = buf.indexOf(0, offset);
+            if (end === -1) throw new QueryError('Truncated query reply', 'PROTOCOL');
+            const s = buf.subarray(offset, end).toString('utf8');
+            offset = end + 1;
+            return s;
+        },
+        skip(n: number) {
+            offset += n;
+        },
+        uint16LE(): number {
+            if (offset + 2 > buf.length) throw new QueryError('Truncated query reply', 'PROTOCOL');
+            const v = buf.readUInt16LE(offset);
+            offset += 2;
+            return v;
+        },
+        get done() {
+            return offset >= buf.length;
+        },
+    };
+}
+
+/**
+ * One query session over a fresh UDP socket: handshake for a challenge token, then one stat request.
+ * UDP has no connection, so a disabled or unreachable query port only shows up as a timeout.
+ */
+async function exchange({ host, port, timeoutMs = 3000 }: QueryOptions, full: boolean): Promise<Buffer> {
+    const socket = dgram.createSocket(host.includes(':') ? 'udp6' : 'udp4');
+    // Listen for errors from the start: one emitted with no listener (e.g. EADDRNOTAVAIL on send)
+    // would crash the process. It fails the pending receive, or the next one.
+    let socketError: Error | null = null;
+    let onSocketError: ((e: Error) => void) | null = null;
+    socket.on('error', (e) => {
+        socketError = e;
+        onSocketError?.(e);
+    });
+    // Session ids are masked like the reference client so the server echoes them unchanged
+    const sessionId = Math.floor(Math.random() * 0x7fffffff) & 0x0f0f0f0f;
+
+    const receive = (type: number) =>
+        new Promise<Buffer>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                cleanup();
+                reject(new QueryError(`No query reply from ${host}:${port} within ${timeoutMs}ms`, 'TIMEOUT'));
+            }, timeoutMs);
+            const onMessage = (msg: Buffer) => {
+                if (msg.length < 5 || msg[0] !== type || msg.readInt32BE(1) !== sessionId) return;
+                cleanup();
+                resolve(msg.subarray(5));
+            };
+            const onError = (e: Error) => {
+                cleanup();
+                reject(new QueryError(e.message, 'PROTOCOL'));
+            };
+            const cleanup = () => {
+                clearTimeout(timer);
+                socket.off('message', onMessage);
+                onSocketError = null;
+            };
+            if (socketError) return onError(socketError);
+            socket.on('message', onMessage);
+            onSocketError = onError;
+        });
+
+    try {
+        const handshake = receive(TYPE_HANDSHAKE);
+        socket.send(request(TYPE_HANDSHAKE, sessionId), port, host);
+        // The challenge token comes back as a decimal string
+        const token = Number.parseInt(reader(await handshake, 0).string(), 10);
+        if (!Number.isFinite(token)) throw new QueryError('Bad challenge token', 'PROTOCOL');
+
+        const payload = Buffer.alloc(full ? 8 : 4); // full stat appends four padding bytes
+        payload.writeInt32BE(token | 0, 0);
+        const stat = receive(TYPE_STAT);
+        socket.send(request(TYPE_STAT, sessionId, payload), port, host);
+        return await stat;
+    } finally {
+        socket.close();
+    }
+}
+
+export async function queryBasic(options: QueryOptions): Promise<BasicStat> {
+    const r = reader(await exchange(options, false), 0);
+    return {
+        motd: chatToPlainText(r.string()),
+        gameType: r.string(),
+        map: r.string(),
+        numPlayers: Number.parseInt(r.string(), 10) || 0,
+        maxPlayers: Number.parseInt(r.string(), 10) || 0,
+        hostPort: r.uint16LE(),
+        hostIp: r.string(),
+    };
+}
+
+/** "CraftBukkit on Bukkit 1.20: WorldEdit 7.2; LuckPerms 5.4" → server + plugin list; vanilla sends "". */
+export function parsePlugins(raw: string): ServerQuery['plugins'] {
+    if (!raw) return { server: '', list: [] };
+    const sep = raw.indexOf(': ');
+    if (sep === -1) return { server: raw, list: [] };
+    return {
+        server: raw.slice(0, sep),
+        list: raw.slice(sep + 2).split('; ').map((p) => p.trim()).filter(Boolean),
+    };
+}
+
+export async function queryFull(options: QueryOptions): Promise<ServerQuery> {
+    const r = reader(await exchange(options, true), 0);
+    r.skip(KV_PADDING);
+    const kv: Record<string, string> = {};
+    for (;;) {
+        const key = r.string();
+        if (!key) break;
+        kv[key] = r.string();
+    }
+    r.skip(PLAYER_PADDING);
+    const players: string[] = [];
+    while (!r.done) {
+        const name = r.string();
+        if (!name) break;
+        players.push(name);
+    }
+    return {
+        motd: chatToPlainText(kv.hostname ?? ''),
+        gameType: kv.gametype ?? '',
+        gameId: kv.game_id ?? '',
+        version: kv.version ?? '',
+        plugins: parsePlugins(kv.plugins ?? ''),
+        map: kv.map ?? '',
+        numPlayers: Number.parseInt(kv.numplayers ?? '', 10) || 0,
+        maxPlayers: Number.parseInt(kv.maxplayers ?? '', 10) || 0,
+        hostPort: Number.parseInt(kv.hostport ?? '', 10) || 0,
+        hostIp: kv.hostip ?? '',
+        players,
+    };
+}
+
+/**
+ * Query settings from a world's server.properties. Vanilla listens on query.port, which
+ * defaults to server-port (UDP, so sharing the number with the game's TCP port is fine).
+ */
+export async function readQueryConfig(worldName: string): Promise<{ enabled: boolean; host: string; port: number }> {
+    const props = (await readWorldProperties(worldName)) ?? {};
+    const toPort = (v: string | undefined) => {
+        const n = Number.parseInt(v ?? '', 10);
+        return Number.isInteger(n) && n > 0 && n <= 65535 ? n : null;
+    };
+    return {
+        enabled: props['enable-query'] === 'true',
+        host: props['server-ip'] || '127.0.0.1',
+        port: toPort(props['query.port']) ?? toPort(props['server-port']) ?? 25565,
+    };
+}
+
+/** Another running world that already has query on `port`, if any. */
+export async function findQueryPortClash(worldName: string, port: number): Promise<string | null> {
+    for (const other of await listWorldNames()) {
+        if (other === worldName) continue;
+        const { enabled, port: otherPort } = await readQueryConfig(other);
+        if (!enabled || otherPort !== port) continue;
+        if ((await getServerState(other)).state !== 'stopped') return other;
+    }
+    return null;
+}
+
+/** Full stat of a world's running server, using its query settings. */
+export async function queryWorld(worldName: string, timeoutMs?: number): Promise<ServerQuery> {
+    const { enabled, host, port } = await readQueryConfig(worldName);
+    if (!enabled) throw new QueryError(`Query is not enabled for "${worldName}"`, 'CONFIG');
+    return queryFull({ host, port, timeoutMs });
+}
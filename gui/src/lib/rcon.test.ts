@@ -0,0 +1,149 @@
+import net from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { RconClient, RconError, decodePackets, encodePacket } from '@/lib/rcon';
+
+const PASSWORD = 'secret';
+
+type Packet = { id: number; type: number; body: string };
+
+// Replies to one command packet with whatever framing the test wants; later packets wait for it
+type Handler = (socket: net.Socket, command: Packet) => void | Promise<void>;
+
+type FakeServer = {
+    port: number;
+    connections: number;
+    sockets: Set<net.Socket>;
+    close: () => Promise<void>;
+};
+
+// A minimal vanilla-like RCON server: packets are handled one at a time, auth replies with the
+// request id (or -1), and the type-0 packet after a command is echoed back as the end marker.
+async function startFakeServer(handler: Handler): Promise<FakeServer> {
+    const sockets = new Set<net.Socket>();
+    const state = { connections: 0 };
+    const server = net.createServer((socket) => {
+        state.connections++;
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+        socket.on('error', () => {});
+        let buffer: Buffer = Buffer.alloc(0);
+        let queue = Promise.resolve();
+        const handle = async (p: Packet) => {
+            if (socket.destroyed) return;
+            if (p.type === 3) socket.write(encodePacket(p.body === PASSWORD ? p.id : -1, 2, ''));
+            else if (p.type === 2) await handler(socket, p);
+            else if (p.type === 0) socket.write(encodePacket(p.id, 0, ''));
+        };
+        socket.on('data', (chunk) => {
+            const { packets, rest } = decodePackets(Buffer.concat([buffer, chunk]));
+            buffer = rest;
+            for (const p of packets) queue = queue.then(() => handle(p));
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+    return {
+        port,
+        get connections() {
+            return state.connections;
+        },
+        sockets,
+        close: () =>
+            new Promise<void>((resolve) => {
+                for (const s of sockets) s.destroy();
+                server.close(() => resolve());
+            }),
+    };
+}
+
+const echo: Handler = (socket, p) => {
+    socket.write(encodePacket(p.id, 0, `ran ${p.body}`));
+};
+
+let server: FakeServer | null = null;
+let client: RconClient | null = null;
+
+afterEach(async () => {
+    client?.close();
+    client = null;
+    await server?.close();
+    server = null;
+});
+
+function connectTo(s: FakeServer, password = PASSWORD, timeoutMs = 1000) {
+    client = new RconClient({ host: '127.0.0.1', port: s.port, password, timeoutMs });
+    return client;
+}
+
+describe('RconClient', () => {
+    it('runs a command and returns its output', async () => {
+        server = await startFakeServer(echo);
+        await expect(connectTo(server).command('list')).resolves.toBe('ran list');
+    });
+
+    it('rejects with an AUTH error when the server answers id -1', async () => {
+        server = await startFakeServer(echo);
+        const err = await connectTo(server, 'wrong').command('list').catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(RconError);
+        expect((err as RconError).code).toBe('AUTH');
+        expect(client!.connected).toBe(false);
+    });
+
+    it('joins a reply split over several packets up to the end marker', async () => {
+        server = await startFakeServer(async (socket, p) => {
+            // Three response packets, the first split mid-frame
+            const frames = Buffer.concat([
+                encodePacket(p.id, 0, 'part one, '),
+                encodePacket(p.id, 0, 'part two, '),
+                encodePacket(p.id, 0, 'part three'),
+            ]);
+            socket.write(frames.subarray(0, 7));
+            await new Promise((r) => setTimeout(r, 20));
+            socket.write(frames.subarray(7));
+        });
+        await expect(connectTo(server).command('help')).resolves.toBe('part one, part two, part three');
+    });
+
+    it('times out a command the server never answers', async () => {
+        server = await startFakeServer(() => new Promise(() => {}));
+        const c = connectTo(server, PASSWORD, 200);
+        // Authenticate first, so the timeout is the command's and not the connect's
+        await c.connect();
+        const err = await c.command('list').catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(RconError);
+        expect((err as RconError).code).toBe('TIMEOUT');
+        expect(c.connected).toBe(false);
+    });
+
+    it('reconnects on the next command after the server closes the socket', async () => {
+        server = await startFakeServer(echo);
+        const c = connectTo(server);
+        await expect(c.command('first')).resolves.toBe('ran first');
+        expect(server.connections).toBe(1);
+
+        for (const s of server.sockets) s.destroy();
+        await expect.poll(() => c.connected).toBe(false);
+
+        await expect(c.command('second')).resolves.toBe('ran second');
+        expect(server.connections).toBe(2);
+    });
+
+    it('does not re-send a command when the socket drops after it was sent', async () => {
+        const received: string[] = [];
+        server = await startFakeServer((socket, p) => {
+            received.push(p.body);
+            if (received.length === 1) socket.destroy();
+            else echo(socket, p);
+        });
+        const c = connectTo(server);
+        const err = await c.command('give alex diamond').catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(RconError);
+        expect((err as RconError).code).toBe('CLOSED');
+        expect(received).toEqual(['give alex diamond']);
+        expect(server.connections).toBe(1);
+
+        // The next command gets a fresh connection
+        await expect(c.command('list')).resolves.toBe('ran list');
+        expect(received).toEqual(['give alex diamond', 'list']);
+    });
+});
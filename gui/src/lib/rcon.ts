@@ -0,0 +1,264 @@
+import net from 'net';
+import { readWorldProperties } from '@/lib/worlds';
+
+// Source RCON protocol as implemented by the vanilla server:
+// [int32 LE length][int32 LE request id][int32 LE type][ASCII body]\0\0, length excludes itself
+const TYPE_AUTH = 3;
+const TYPE_EXEC = 2;
+const TYPE_RESPONSE = 0;
+const MAX_OUTGOING_BODY = 1446; // vanilla rejects larger command packets
+
+export interface RconOptions {
+    host: string;
+    port: number;
+    password: string;
+    timeoutMs?: number;
+}
+
+interface Packet {
+    id: number;
+    type: number;
+    body: string;
+}
+
+export class RconError extends Error {
+    constructor(message: string, readonly code: 'AUTH' | 'TIMEOUT' | 'CLOSED' | 'CONFIG' | 'CONNECT') {
+        super(message);
+        this.name = 'RconError';
+    }
+}
+
+export function encodePacket(id: number, type: number, body: string): Buffer {
+    const payload = Buffer.from(body, 'utf8');
+    const buf = Buffer.alloc(14 + payload.length);
+    buf.writeInt32LE(10 + payload.length, 0);
+    buf.writeInt32LE(id, 4);
+    buf.writeInt32LE(type, 8);
+    payload.copy(buf, 12);
+    // two trailing NULs already zeroed by alloc
+    return buf;
+}
+
+/** Split complete packets off the front of `buf`; returns them and the unconsumed rest. */
+export function decodePackets(buf: Buffer): { packets: Packet[]; rest: Buffer } {
+    const packets: Packet[] = [];
+    let off = 0;
+    while (buf.length - off >= 4) {
+        const len = buf.readInt32LE(off);
+        if (buf.length - off - 4 < len) break;
+        const id = buf.readInt32LE(off + 4);
+        const type = buf.readInt32LE(off + 8);
+        const body = buf.subarray(off + 12, off + 4 + len - 2).toString('utf8');
+        packets.push({ id, type, body });
+        off += 4 + len;
+    }
+    return { packets, rest: buf.subarray(off) };
+}
+
+type Pending = {
+    onPacket: (p: Packet) => boolean; // true once the request is complete
+    reject: (e: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * One authenticated RCON connection. Commands are sent one at a time; multi-packet responses
+ * are collected by following each command with an empty packet whose echo marks the end.
+ * The connection is (re)opened lazily, so a dropped socket is retried on the next command.
+ */
+export class RconClient {
+    private socket: net.Socket | null = null;
+    private connecting: Promise<void> | null = null;
+    private buffer: Buffer = Buffer.alloc(0);
+    private pending: Pending | null = null;
+    private nextId = 1;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(readonly options: RconOptions) {}
+
+    private get timeoutMs() {
+        return this.options.timeoutMs ?? 5000;
+    }
+
+    private id() {
+        this.nextId = this.nextId >= 0x7fffffff ? 1 : this.nextId + 1;
+        return this.nextId;
+    }
+
+    get connected() {
+        return this.socket !== null && !this.connecting;
+    }
+
+    private fail(err: Error) {
+        const p = this.pending;
+        this.pending = null;
+        if (p) {
+            clearTimeout(p.timer);
+            p.reject(err);
+        }
+    }
+
+    private teardown(err: Error) {
+        const s = this.socket;
+        this.socket = null;
+        this.buffer = Buffer.alloc(0);
+        if (s) s.destroy();
+        this.fail(err);
+    }
+
+    // Send raw packets and feed replies to `onPacket` until it reports completion
+    private request(packets: Buffer[], onPacket: (p: Packet) => boolean): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = this.socket;
+            if (!socket) return reject(new RconError('Not connected', 'CLOSED'));
+            const timer = setTimeout(() => {
+                this.teardown(new RconError(`RCON request timed out after ${this.timeoutMs}ms`, 'TIMEOUT'));
+            }, this.timeoutMs);
+            this.pending = {
+                onPacket: (p) => {
+                    if (!onPacket(p)) return false;
+                    clearTimeout(timer);
+                    this.pending = null;
+                    resolve();
+                    return true;
+                },
+                reject,
+                timer,
+            };
+            for (const b of packets) socket.write(b);
+        });
+    }
+
+    connect(): Promise<void> {
+        if (this.socket && !this.connecting) return Promise.resolve();
+        if (this.connecting) return this.connecting;
+
+        this.connecting = new Promise<void>((resolve, reject) => {
+            const { host, port } = this.options;
+            const socket = net.createConnection({ host, port });
+            socket.setNoDelay(true);
+            const timer = setTimeout(() => {
+                socket.destroy();
+                reject(new RconError(`RCON connect to ${host}:${port} timed out`, 'TIMEOUT'));
+            }, this.timeoutMs);
+
+            socket.once('connect', () => {
+                clearTimeout(timer);
+                this.socket = socket;
+                resolve();
+            });
+            socket.on('data', (chunk) => {
+                const { packets, rest } = decodePackets(Buffer.concat([this.buffer, chunk]));
+                this.buffer = rest;
+                for (const p of packets) this.pending?.onPacket(p);
+            });
+            socket.on('error', (err) => {
+                clearTimeout(timer);
+                if (this.socket === socket) this.teardown(new RconError(`RCON connection lost: ${err.message}`, 'CLOSED'));
+                else reject(new RconError(`RCON connect to ${host}:${port} failed: ${err.message}`, 'CONNECT'));
+            });
+            socket.on('close', () => {
+                if (this.socket === socket) this.teardown(new RconError('RCON connection closed', 'CLOSED'));
+            });
+        }).then(() => this.authenticate());
+
+        return this.connecting
+            .catch((e) => {
+                this.teardown(e instanceof Error ? e : new Error(String(e)));
+                throw e;
+            })
+            .finally(() => {
+                this.connecting = null;
+            });
+    }
+
+    private async authenticate() {
+        const id = this.id();
+        let ok = false;
+        await this.request([encodePacket(id, TYPE_AUTH, this.options.password)], (p) => {
+            // Auth reply is type 2; id -1 means a bad password
+            if (p.type !== TYPE_EXEC) return false;
+            ok = p.id === id;
+            return true;
+        });
+        if (!ok) throw new RconError('RCON authentication failed (check rcon.password)', 'AUTH');
+    }
+
+    private async exec(command: string): Promise<string> {
+        if (Buffer.byteLength(command, 'utf8') > MAX_OUTGOING_BODY) {
+            throw new RconError('Command is too long for RCON', 'CONFIG');
+        }
+        try {
+            await this.connect();
+        } catch (e) {
+            // Dropped while connecting or authenticating: nothing was sent yet, so one more try is safe
+            if (!(e instanceof RconError && e.code === 'CLOSED')) throw e;
+            await this.connect();
+        }
+        const id = this.id();
+        const marker = this.id();
+        let out = '';
+        await this.request(
+            [encodePacket(id, TYPE_EXEC, command), encodePacket(marker, TYPE_RESPONSE, '')],
+            (p) => {
+                if (p.id === id) out += p.body;
+                return p.id === marker;
+            }
+        );
+        return out;
+    }
+
+    /**
+     * Run a command and return its output. A connection that drops once the command is sent is
+     * not retried: the server may already have run it, and commands like give or ban must not run twice.
+     */
+    command(command: string): Promise<string> {
+        const run = () => this.exec(command);
+        const result = this.queue.then(run, run);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    close() {
+        this.teardown(new RconError('RCON connection closed', 'CLOSED'));
+    }
+}
+
+/** RCON settings from worlds/<name>/server.properties, or null when RCON is off or has no password. */
+export async function readRconOptions(worldName: string): Promise<RconOptions | null> {
+    const props = await readWorldProperties(worldName);
+    if (!props) return null;
+    if (props['enable-rcon'] !== 'true' || !props['rcon.password']) return null;
+    const port = Number.parseInt(props['rcon.port'] ?? '', 10);
+    return {
+        host: props['server-ip'] || '127.0.0.1',
+        port: Number.isInteger(port) && port > 0 ? port : 25575,
+        password: props['rcon.password'],
+    };
+}
+
+// One client per world, kept across requests
+const clients = new Map<string, RconClient>();
+
+/** Shared client for a world; recreated when its settings change. Null if RCON isn't configured. */
+export async function getRconClient(worldName: string): Promise<RconClient | null> {
+    const options = await readRconOptions(worldName);
+    const existing = clients.get(worldName);
+    if (!options) {
+        existing?.close();
+        clients.delete(worldName);
+        return null;
+    }
+    if (
+        existing &&
+        existing.options.host === options.host &&
+        existing.options.port === options.port &&
+        existing.options.password === options.password
+    ) {
+        return existing;
+    }
+    existing?.close();
+    const client = new RconClient(options);
+    clients.set(worldName, client);
+    return client;
+}
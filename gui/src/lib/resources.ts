@@ -0,0 +1,75 @@
+import os from 'os';
+import { CLOCK_TICKS_PER_SEC, countOpenFds, readBootTimeMs, readProcStat, readProcStatus } from '@/lib/procfs';
+import { memoryToBytes } from '@/lib/launchProfile';
+import { ProcessRecord, ServerResources } from '@/lib/types';
+
+// Samples older than this are too coarse for a "current" CPU figure; take a fresh short one instead
+const SAMPLE_MAX_AGE_MS = 60_000;
+const SHORT_SAMPLE_MS = 250;
+
+type CpuSample = { startTicks: number; cpuTicks: number; at: number };
+
+// Last CPU sample per pid, on globalThis so every status request shares them
+const g = globalThis as typeof globalThis & { __mcCpuSamples?: Map<number, CpuSample> };
+const samples: Map<number, CpuSample> = (g.__mcCpuSamples ??= new Map());
+
+async function sampleCpu(pid: number): Promise<CpuSample | null> {
+    const stat = await readProcStat(pid);
+    if (!stat) return null;
+    return { startTicks: stat.startTicks, cpuTicks: stat.utimeTicks + stat.stimeTicks, at: Date.now() };
+}
+
+// CPU use since the previous sample of the same process (start time guards against pid reuse)
+async function cpuPercent(pid: number): Promise<number | null> {
+    let prev = samples.get(pid);
+    let now = await sampleCpu(pid);
+    if (!now) return null;
+    if (!prev || prev.startTicks !== now.startTicks || now.at - prev.at > SAMPLE_MAX_AGE_MS) {
+        prev = now;
+        await new Promise((r) => setTimeout(r, SHORT_SAMPLE_MS));
+        now = await sampleCpu(pid);
+        if (!now) return null;
+    }
+    samples.set(pid, now);
+    const elapsedSec = (now.at - prev.at) / 1000;
+    if (elapsedSec <= 0) return null;
+    return Math.round(((now.cpuTicks - prev.cpuTicks) / CLOCK_TICKS_PER_SEC / elapsedSec) * 1000) / 10;
+}
+
+/** The -Xmx a command line sets (the last one wins, as with java), in bytes. */
+export function maxHeapFromCmdline(cmdline: string[]): number | null {
+    const flag = cmdline.filter((a) => a.startsWith('-Xmx')).pop();
+    return flag ? memoryToBytes(flag.slice(4)) : null;
+}
+
+/** Uptime, CPU, memory, threads and fds of a verified server process; null without /proc or once it's gone. */
+export async function readProcessResources(record: ProcessRecord): Promise<ServerResources | null> {
+    const [stat, status, openFds, bootMs, cpu] = await Promise.all([
+        readProcStat(record.pid),
+        readProcStatus(record.pid),
+        countOpenFds(record.pid),
+        readBootTimeMs(),
+        cpuPercent(record.pid),
+    ]);
+    if (!stat || !status) return null;
+
+    // The launch time is exact; boot time is only whole seconds, so it's the fallback for adopted servers
+    const startedAt = record.startedAt
+        ? Date.parse(record.startedAt)
+        : bootMs !== null ? bootMs + (stat.startTicks / CLOCK_TICKS_PER_SEC) * 1000 : NaN;
+    // Forget samples of processes that are gone
+    for (const pid of samples.keys()) {
+        if (pid !== record.pid && !(await readProcStat(pid))) samples.delete(pid);
+    }
+
+    return {
+        uptimeMs: Number.isFinite(startedAt) ? Math.max(0, Date.now() - startedAt) : null,
+        cpuPercent: cpu,
+        cpuCount: os.cpus().length || 1,
+        cpuSeconds: (stat.utimeTicks + stat.stimeTicks) / CLOCK_TICKS_PER_SEC,
+        rssBytes: status.rssBytes,
+        maxHeapBytes: maxHeapFromCmdline(record.cmdline),
+        threads: status.threads,
+        openFds,
+    };
+}
@@ -0,0 +1,286 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { removeStdinFifo, writeConsoleCommand } from '@/lib/console';
+import { getRconClient } from '@/lib/rcon';
+import { pingServer } from '@/lib/slp';
+import {
+    PID_DIR,
+    isAlive,
+    pidFile,
+    processRecordFile,
+    readPid,
+    readProcessRecord,
+    readWorldProperties,
+    validateWorldName,
+    verifyProcessRecord,
+    writeProcessRecord,
+} from '@/lib/worlds';
+import { readProcCmdline, readProcStat } from '@/lib/procfs';
+import { readProcessResources } from '@/lib/resources';
+import { ManagedProcess, ServerState, ServerStatus } from '@/lib/types';
+
+// Default grace period before a stop escalates to SIGKILL (override per request or with MC_STOP_TIMEOUT_MS)
+export const DEFAULT_STOP_TIMEOUT_MS = Number.parseInt(process.env.MC_STOP_TIMEOUT_MS || '', 10) || 60_000;
+
+function stoppingFile(worldName: string) {
+    return path.join(PID_DIR, `${worldName}.stopping`);
+}
+
+// The marker lives on disk so every request (and a reloaded dev server) sees the same state
+async function markStopping(worldName: string, pid: number) {
+    await fs.mkdir(PID_DIR, { recursive: true });
+    await fs.writeFile(stoppingFile(worldName), JSON.stringify({ pid, since: new Date().toISOString() }));
+}
+
+async function isMarkedStopping(worldName: string, pid: number): Promise<boolean> {
+    try {
+        const marker = JSON.parse(await fs.readFile(stoppingFile(worldName), 'utf8')) as { pid?: number };
+        return marker.pid === pid;
+    } catch {
+        return false;
+    }
+}
+
+// Stops asked for through stopServer, so the supervisor never mistakes them for crashes; on
+// globalThis so every route module sees the same map
+type DeliberateStop = { pid: number | null; at: number };
+const g = globalThis as typeof globalThis & { __mcDeliberateStops?: Map<string, DeliberateStop> };
+const deliberateStops: Map<string, DeliberateStop> = (g.__mcDeliberateStops ??= new Map());
+
+/** Whether a stop of this world was requested: for this pid, or (pid omitted) at or after `since`. */
+export function isDeliberateStop(worldName: string, { pid, since }: { pid?: number; since?: number }): boolean {
+    const stop = deliberateStops.get(worldName);
+    if (!stop) return false;
+    if (pid !== undefined) return stop.pid === pid;
+    return since === undefined || stop.at >= since;
+}
+
+// Port file from before process records carried the port
+function legacyPortFile(worldName: string) {
+    return path.join(PID_DIR, `${worldName}.port`);
+}
+
+/** Port the world's server listens on: the one recorded at launch (it may differ from server.properties), else its server-port, else 25565. */
+export async function readServerPort(worldName: string): Promise<number> {
+    const recorded = (await readProcessRecord(worldName))?.port;
+    if (recorded) return recorded;
+    const configured = Number.parseInt((await readWorldProperties(worldName))?.['server-port'] ?? '', 10);
+    return Number.isInteger(configured) && configured > 0 ? configured : 25565;
+}
+
+export async function getServerState(worldName: string): Promise<{ state: ServerState; pid: number | null }> {
+    const pid = await readPid(worldName);
+    if (pid === null || !isAlive(pid)) return { state: 'stopped', pid: null };
+    return { state: (await isMarkedStopping(worldName, pid)) ? 'stopping' : 'running', pid };
+}
+
+export async function waitForExit(pid: number, timeoutMs: number, pollMs = 250): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (isAlive(pid)) {
+        if (Date.now() >= deadline) return false;
+        await new Promise((r) => setTimeout(r, pollMs));
+    }
+    return true;
+}
+
+/** Forget a server that has exited: process record, stdin pipe and stopping marker. */
+export async function clearServerState(worldName: string) {
+    await Promise.all([
+        fs.rm(processRecordFile(worldName), { force: true }),
+        fs.rm(pidFile(worldName), { force: true }),
+        fs.rm(stoppingFile(worldName), { force: true }),
+        fs.rm(legacyPortFile(worldName), { force: true }),
+        removeStdinFifo(worldName),
+    ]);
+}
+
+// World names that have a record or a legacy pid file in .mc-pids
+async function recordedWorlds(): Promise<string[]> {
+    let files: string[];
+    try {
+        files = await fs.readdir(PID_DIR);
+    } catch {
+        return [];
+    }
+    const names = files.map((f) => /^(.+)\.(?:json|pid)$/.exec(f)?.[1]).filter((n): n is string => !!n && validateWorldName(n));
+    return [...new Set(names)].sort();
+}
+
+/**
+ * Check every record against the live processes: stale ones (process gone or pid reused) are
+ * cleared, and legacy pid files of servers still running are upgraded to full records.
+ */
+export async function reconcileProcessRecords(): Promise<{ world: string; pid: number; action: 'kept' | 'upgraded' | 'cleared' }[]> {
+    const results: { world: string; pid: number; action: 'kept' | 'upgraded' | 'cleared' }[] = [];
+    for (const world of await recordedWorlds()) {
+        const record = await readProcessRecord(world);
+        if (!record) {
+            await clearServerState(world);
+            continue;
+        }
+        if (!(await verifyProcessRecord(record))) {
+            await clearServerState(world);
+            results.push({ world, pid: record.pid, action: 'cleared' });
+        } else if (record.startTicks === null && record.startedAt === null) {
+            const [stat, cmdline] = await Promise.all([readProcStat(record.pid), readProcCmdline(record.pid)]);
+            const jarAt = cmdline?.indexOf('-jar') ?? -1;
+            const portAt = cmdline?.indexOf('--port') ?? -1;
+            await writeProcessRecord({
+                ...record,
+                startTicks: stat?.startTicks ?? null,
+                cmdline: cmdline ?? [],
+                jar: jarAt >= 0 ? (cmdline?.[jarAt + 1] ?? null) : null,
+                port: portAt >= 0 ? Number(cmdline?.[portAt + 1]) || null : null,
+            });
+            await fs.rm(pidFile(world), { force: true });
+            results.push({ world, pid: record.pid, action: 'upgraded' });
+        } else {
+            results.push({ world, pid: record.pid, action: 'kept' });
+        }
+    }
+    return results;
+}
+
+/** Every process record with whether it still checks out. */
+export async function listManagedProcesses(): Promise<ManagedProcess[]> {
+    const out: ManagedProcess[] = [];
+    for (const world of await recordedWorlds()) {
+        const record = await readProcessRecord(world);
+        if (!record) continue;
+        const verified = await verifyProcessRecord(record);
+        const { state } = await getServerState(world);
+        out.push({ ...record, verified, state });
+    }
+    return out;
+}
+
+/**
+ * Process state plus a Server List Ping of the live port, so "running" can be told apart from
+ * "answering", and the process's resource use from /proc.
+ */
+export async function getServerStatus(worldName: string, timeoutMs = 2000): Promise<ServerStatus> {
+    const { state, pid } = await getServerState(worldName);
+    // "running" stays true while stopping: the process is still up
+    const status: ServerStatus = {
+        running: state !== 'stopped',
+        state,
+        pid,
+        port: null,
+        responding: false,
+        ping: null,
+        pingError: null,
+        resources: null,
+    };
+    if (state === 'stopped') return status;
+
+    status.port = await readServerPort(worldName);
+    const host = (await readWorldProperties(worldName))?.['server-ip'] || '127.0.0.1';
+    const record = await readProcessRecord(worldName);
+    const [ping, resources] = await Promise.all([
+        pingServer({ host, port: status.port, timeoutMs }).catch((e: unknown) => (e instanceof Error ? e : new Error('ping failed'))),
+        record ? readProcessResources(record) : null,
+    ]);
+    if (ping instanceof Error) {
+        status.pingError = ping.message;
+    } else {
+        status.ping = ping;
+        status.responding = true;
+    }
+    status.resources = resources;
+    return status;
+}
+
+/**
+ * Run one console command: over RCON (returns its output) if the world has it, else through
+ * the stdin pipe (output only appears in the console log). Throws if neither is reachable.
+ */
+export async function runServerCommand(
+    worldName: string,
+    command: string
+): Promise<{ via: 'rcon' | 'stdin'; output: string | null }> {
+    const client = await getRconClient(worldName);
+    if (client) {
+        try {
+            return { via: 'rcon', output: await client.command(command) };
+        } catch { /* fall through to stdin */ }
+    }
+    await writeConsoleCommand(worldName, command);
+    return { via: 'stdin', output: null };
+}
+
+/** Send console commands over RCON if the world has it, else through the stdin pipe. */
+export async function sendServerCommands(worldName: string, commands: string[]): Promise<'rcon' | 'stdin' | null> {
+    const client = await getRconClient(worldName);
+    if (client) {
+        let sent = 0;
+        try {
+            for (const c of commands) {
+                await client.command(c);
+                sent++;
+            }
+            return 'rcon';
+        } catch {
+            // The connection drops as the server acts on "stop"; only fall back if nothing got through
+            if (sent > 0) return 'rcon';
+        }
+    }
+    try {
+        for (const c of commands) await writeConsoleCommand(worldName, c);
+        return 'stdin';
+    } catch {
+        return null;
+    }
+}
+
+export type StopResult =
+    | { alreadyStopped: true }
+    | {
+          alreadyStopped: false;
+          pid: number;
+          // graceful: exited after save-all + stop; sigterm: no console to talk to, JVM shutdown hook saved;
+          // sigkill: still alive after the timeout
+          path: 'graceful' | 'sigterm' | 'sigkill';
+          via: 'rcon' | 'stdin' | null;
+          waitedMs: number;
+          exited: boolean;    // false: still alive even after SIGKILL (D-state, or not ours to kill)
+      };
+
+export async function stopServer(worldName: string, timeoutMs = DEFAULT_STOP_TIMEOUT_MS): Promise<StopResult> {
+    const pid = await readPid(worldName);
+    if (pid === null || !isAlive(pid)) {
+        // Also calls off a crash restart the supervisor has scheduled
+        deliberateStops.set(worldName, { pid: null, at: Date.now() });
+        await clearServerState(worldName);
+        return { alreadyStopped: true };
+    }
+
+    const startedAt = Date.now();
+    deliberateStops.set(worldName, { pid, at: startedAt });
+    await markStopping(worldName, pid);
+    try {
+        const via = await sendServerCommands(worldName, ['save-all', 'stop']);
+        let stopPath: 'graceful' | 'sigterm' | 'sigkill' = 'graceful';
+        if (!via) {
+            stopPath = 'sigterm';
+            try {
+                process.kill(pid, 'SIGTERM');
+            } catch { /* already gone */ }
+        }
+
+        let exited = await waitForExit(pid, timeoutMs);
+        if (!exited) {
+            stopPath = 'sigkill';
+            try {
+                process.kill(pid, 'SIGKILL');
+            } catch { /* exited just now, or not ours to kill */ }
+            exited = await waitForExit(pid, 5_000);
+        }
+
+        return { alreadyStopped: false, pid, path: stopPath, via, waitedMs: Date.now() - startedAt, exited };
+    } finally {
+        // Only forget the pid once it's really gone. A failed SIGKILL keeps the record for the next
+        // attempt but drops the marker, so the world reads as running and can be stopped again
+        if (!isAlive(pid)) await clearServerState(worldName);
+        else await fs.rm(stoppingFile(worldName), { force: true });
+    }
+}
@@ -1,67 +1,121 @@
 import { z } from "zod";
 
+// zod sets up its English messages as a module side effect, which the bundler drops
+// ("sideEffects": false); without this every field error reads "Invalid input"
+z.config(z.locales.en());
+
+// server.properties holds strings. The server reads "true"/"false" as booleans (case-insensitive)
+// and plain integers as numbers, so accept those strings as well as real JSON booleans and numbers.
+// (z.coerce.boolean() would turn the string "false" into true.)
+const bool = () =>
+    z.preprocess(
+        (v) => (typeof v === "string" && /^(true|false)$/i.test(v.trim()) ? v.trim().toLowerCase() === "true" : v),
+        z.boolean()
+    );
+
+function int(min?: number, max?: number) {
+    let n = z.number().int();
+    if (min !== undefined) n = n.min(min);
+    if (max !== undefined) n = n.max(max);
+    return z.preprocess((v) => (typeof v === "string" && /^-?\d+$/.test(v.trim()) ? Number(v) : v), n);
+}
+
+const port = () => int(1, 65535);
+
 export const serverPropsSchema = z.object({
-    "accepts-transfers": z.coerce.boolean().default(false),
-    "allow-flight": z.coerce.boolean(),
-    "allow-nether": z.coerce.boolean(),
-    "broadcast-console-to-ops": z.coerce.boolean(),
-    "broadcast-rcon-to-ops": z.coerce.boolean(),
+    "accepts-transfers": bool().default(false),
+    "allow-flight": bool(),
+    "allow-nether": bool(),
+    "broadcast-console-to-ops": bool(),
+    "broadcast-rcon-to-ops": bool(),
+    "bug-report-link": z.string().default(""),
     difficulty: z.enum(["peaceful", "easy", "normal", "hard"]).default("easy"),
-    "enable-command-block": z.coerce.boolean(),
-    "enable-jmx-monitoring": z.coerce.boolean(),
-    "enable-query": z.coerce.boolean(),
-    "enable-rcon": z.coerce.boolean(),
-    "enable-status": z.coerce.boolean(),
-    "enforce-secure-profile": z.coerce.boolean(),
-    "enforce-whitelist": z.coerce.boolean(),
-    "entity-broadcast-range-percentage": z.coerce.number().int().min(0).max(1000),
-    "force-gamemode": z.coerce.boolean(),
-    "function-permission-level": z.coerce.number().int().min(1).max(4),
+    "enable-command-block": bool(),
+    "enable-jmx-monitoring": bool(),
+    "enable-query": bool(),
+    "enable-rcon": bool(),
+    "enable-status": bool(),
+    "enforce-secure-profile": bool(),
+    "enforce-whitelist": bool(),
+    "entity-broadcast-range-percentage": int(10, 1000),
+    "force-gamemode": bool(),
+    "function-permission-level": int(1, 4),
     gamemode: z.enum(["survival", "creative", "adventure", "spectator"]).default("survival"),
-    "generate-structures": z.coerce.boolean(),
+    "generate-structures": bool(),
     "generator-settings": z.string(), // json-ish string, keep as string unless you want to parse JSON
-    hardcore: z.coerce.boolean(),
-    "hide-online-players": z.coerce.boolean(),
+    hardcore: bool(),
+    "hide-online-players": bool(),
     "initial-disabled-packs": z.string().default(""),
     "initial-enabled-packs": z.string().default("vanilla"),
     "level-name": z.string(),
     "level-seed": z.string().default(""),
     "level-type": z.string(), // e.g. "minecraft:normal"
-    "log-ips": z.coerce.boolean(),
-    "max-chained-neighbor-updates": z.coerce.number().int(),
-    "max-players": z.coerce.number().int().min(1),
-    "max-tick-time": z.coerce.number().int(),
-    "max-world-size": z.coerce.number().int(),
+    "log-ips": bool(),
+    "max-chained-neighbor-updates": int(),
+    "max-players": int(1),
+    "max-tick-time": int(-1), // -1 turns the watchdog off
+    "max-world-size": int(1, 29999984),
     motd: z.string(),
-    "network-compression-threshold": z.coerce.number().int(),
-    "online-mode": z.coerce.boolean(),
-    "op-permission-level": z.coerce.number().int().min(1).max(4),
-    "pause-when-empty-seconds": z.coerce.number().int().min(0),
-    "player-idle-timeout": z.coerce.number().int().min(0),
-    "prevent-proxy-connections": z.coerce.boolean(),
-    pvp: z.coerce.boolean(),
-    "query.port": z.coerce.number().int(),
-    "rate-limit": z.coerce.number().int(),
+    "network-compression-threshold": int(-1),
+    "online-mode": bool(),
+    "op-permission-level": int(1, 4),
+    "pause-when-empty-seconds": int(0),
+    "player-idle-timeout": int(0),
+    "prevent-proxy-connections": bool(),
+    pvp: bool(),
+    "query.port": port(),
+    "rate-limit": int(0),
     "rcon.password": z.string().default(""),
-    "rcon.port": z.coerce.number().int(),
+    "rcon.port": port(),
     "region-file-compression": z.enum(["deflate","lz4","zstd"]).default("deflate"),
-    "require-resource-pack": z.coerce.boolean(),
+    "require-resource-pack": bool(),
     "resource-pack": z.string().default(""),
     "resource-pack-id": z.string().default(""),
     "resource-pack-prompt": z.string().default(""),
     "resource-pack-sha1": z.string().default(""),
     "server-ip": z.string().default(""),
-    "server-port": z.coerce.number().int(),
-    "simulation-distance": z.coerce.number().int(),
-    "spawn-monsters": z.coerce.boolean(),
-    "spawn-protection": z.coerce.number().int(),
-    "sync-chunk-writes": z.coerce.boolean(),
+    "server-port": port(),
+    "simulation-distance": int(3, 32),
+    "spawn-monsters": bool(),
+    "spawn-protection": int(0),
+    "sync-chunk-writes": bool(),
     "text-filtering-config": z.string().default(""),
-    "text-filtering-version": z.coerce.number().int().default(0),
-    "use-native-transport": z.coerce.boolean(),
-    "view-distance": z.coerce.number().int(),
-    "white-list": z.coerce.boolean(),
+    "text-filtering-version": int(0).default(0),
+    "use-native-transport": bool(),
+    "view-distance": int(2, 32),
+    "white-list": bool(),
 })
     .loose(); // <-- allow unknown future keys
 
 export type KnownServerProps = z.infer<typeof serverPropsSchema>;
+
+type PropertyValue = string | number | boolean;
+
+// Keys the schema doesn't know (newer server versions, mods) only need to be writable as text
+const unknownValue = z.union([z.string(), z.number(), z.boolean()], { error: "Must be a string, number or boolean" });
+
+const shape: Record<string, z.ZodType> = serverPropsSchema.shape;
+
+/**
+ * Check each key on its own: typed values for the keys that pass, messages for those that don't.
+ * Unlike parsing the whole object, absent keys stay absent (no defaults) and one bad key
+ * doesn't hide the others. null passes through; in a patch it removes the key.
+ */
+export function validateServerProps(props: Record<string, unknown>): {
+    values: Record<string, PropertyValue | null>;
+    fieldErrors: Record<string, string[]>;
+} {
+    const values: Record<string, PropertyValue | null> = {};
+    const fieldErrors: Record<string, string[]> = {};
+    for (const [key, value] of Object.entries(props)) {
+        if (value === undefined) continue;
+        if (value === null) {
+            values[key] = null;
+            continue;
+        }
+        const result = (Object.hasOwn(shape, key) ? shape[key] : unknownValue).safeParse(value);
+        if (result.success) values[key] = result.data as PropertyValue;
+        else fieldErrors[key] = result.error.issues.map((i) => i.message);
+    }
+    return { values, fieldErrors };
+}
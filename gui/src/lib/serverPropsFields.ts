@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { serverPropsSchema } from '@/lib/serverProps';
+
+// How the editor shows each server.properties key. The control (switch, number range, select,
+// text) comes from serverPropsSchema; sections and help text live here.
+
+export type FieldControl =
+    | { type: 'boolean' }
+    | { type: 'number'; min?: number; max?: number }
+    | { type: 'enum'; options: readonly string[] }
+    | { type: 'text'; secret?: boolean };
+
+export type PropertyField = { key: string; help: string; control: FieldControl };
+export type PropertySection = { title: string; fields: PropertyField[] };
+
+const SECRET_KEYS = new Set(['rcon.password']);
+
+const SECTION_HELP: { title: string; help: Record<string, string> }[] = [
+    {
+        title: 'Gameplay',
+        help: {
+            difficulty: 'How hard the game is: mob damage, hunger and more.',
+            gamemode: 'Game mode for new players.',
+            'force-gamemode': 'Put players in the default game mode every time they join.',
+            hardcore: 'One life: players are banned, or switched to spectator, when they die.',
+            pvp: 'Let players damage each other.',
+            'allow-flight': 'Let players fly in survival (mods, elytra-like clients) without being kicked.',
+            'allow-nether': 'Let players travel to the Nether.',
+            'spawn-monsters': 'Spawn hostile mobs.',
+            'enable-command-block': 'Let command blocks run commands.',
+            'max-players': 'Most players online at once.',
+            'player-idle-timeout': 'Minutes before idle players are kicked; 0 never kicks.',
+            'spawn-protection': 'Radius around spawn that only operators can build in; 0 turns it off.',
+            'op-permission-level': 'Permission level given to players made operator with /op.',
+            'function-permission-level': 'Permission level that functions run with.',
+        },
+    },
+    {
+        title: 'World',
+        help: {
+            'level-name': 'Folder the world is saved in. Changing it starts a different world.',
+            'level-seed': 'Seed for generating the world; empty picks a random one. Only used before the world exists.',
+            'level-type': 'World preset, e.g. minecraft:normal, minecraft:flat, minecraft:large_biomes.',
+            'generator-settings': 'JSON settings for the world preset, e.g. the layers of a flat world.',
+            'generate-structures': 'Generate villages, temples and other structures.',
+            'max-world-size': 'Radius of the world border in blocks.',
+            'initial-enabled-packs': 'Data packs enabled when the world is created.',
+            'initial-disabled-packs': 'Data packs not enabled when the world is created.',
+            'region-file-compression': 'Compression of newly written region files.',
+            'sync-chunk-writes': 'Write chunk files synchronously. Safer on crashes, slower on some disks.',
+        },
+    },
+    {
+        title: 'Performance',
+        help: {
+            'view-distance': 'How far the server sends chunks to clients, in chunks. Higher = more bandwidth/CPU.',
+            'simulation-distance': 'How far around players entities and blocks are ticked, in chunks. Higher = more CPU.',
+            'entity-broadcast-range-percentage': 'How far away entities are sent to clients, as a percentage of the default.',
+            'max-tick-time': 'Milliseconds a single tick may take before the watchdog stops the server; -1 turns it off.',
+            'max-chained-neighbor-updates': 'Limit on chained block updates before the rest are skipped.',
+            'pause-when-empty-seconds': 'Seconds without players before the server stops ticking; 0 never pauses.',
+        },
+    },
+    {
+        title: 'Network',
+        help: {
+            'server-ip': 'Address to listen on; empty listens on all interfaces.',
+            'server-port': 'Port players connect to.',
+            motd: 'Message shown under the server name in the server list.',
+            'enable-status': 'Answer server list pings. When off, the server shows as offline.',
+            'hide-online-players': 'Leave the player list out of status replies.',
+            'accepts-transfers': 'Accept players sent over from another server with /transfer.',
+            'network-compression-threshold': 'Packets larger than this many bytes are compressed; -1 turns compression off.',
+            'rate-limit': 'Packets per second a client may send before being kicked; 0 turns the limit off.',
+            'use-native-transport': 'Use the faster Linux networking (epoll) when available.',
+            'prevent-proxy-connections': 'Kick players whose address differs from the one Mojang saw at login.',
+            'bug-report-link': 'Link shown to players when they report a bug.',
+        },
+    },
+    {
+        title: 'RCON / Query',
+        help: {
+            'enable-rcon': 'Accept remote console connections. The console and graceful stop use it.',
+            'rcon.port': 'Port the remote console listens on.',
+            'rcon.password': 'Password for the remote console. RCON stays off while it is empty.',
+            'broadcast-rcon-to-ops': 'Show commands run over RCON to online operators.',
+            'broadcast-console-to-ops': 'Show commands run on the console to online operators.',
+            'enable-query': 'Answer GameSpy4 query requests (player list, plugins).',
+            'query.port': 'UDP port for query requests.',
+            'enable-jmx-monitoring': 'Expose tick time metrics over JMX.',
+        },
+    },
+    {
+        title: 'Resource Pack',
+        help: {
+            'resource-pack': 'URL of a resource pack players are offered on join.',
+            'resource-pack-id': 'UUID of the resource pack, so clients can cache it.',
+            'resource-pack-sha1': 'SHA-1 of the pack file, so clients can check the download.',
+            'resource-pack-prompt': 'Message shown with the resource pack prompt.',
+            'require-resource-pack': 'Disconnect players who decline the resource pack.',
+        },
+    },
+    {
+        title: 'Security',
+        help: {
+            'online-mode': 'Check players against Mojang accounts. Turn off only behind a proxy that does it.',
+            'enforce-secure-profile': 'Require players to have a Mojang-signed chat key.',
+            'white-list': 'Only let players on the whitelist join.',
+            'enforce-whitelist': 'Kick players who are not on the whitelist when it is reloaded.',
+            'log-ips': 'Write player IP addresses to the server log.',
+            'text-filtering-config': 'Chat filter configuration.',
+            'text-filtering-version': 'Version of the chat filter configuration format.',
+        },
+    },
+];
+
+// The type behind defaults and the string/number preprocessing
+function innerType(schema: z.ZodType): z.ZodType {
+    let t = schema;
+    while (t instanceof z.ZodDefault || t instanceof z.ZodPipe) {
+        t = t instanceof z.ZodDefault ? (t.unwrap() as z.ZodType) : (t.def.out as z.ZodType);
+    }
+    return t;
+}
+
+function controlFor(key: string, schema: z.ZodType): FieldControl {
+    const t = innerType(schema);
+    if (t instanceof z.ZodBoolean) return { type: 'boolean' };
+    if (t instanceof z.ZodEnum) return { type: 'enum', options: t.options as string[] };
+    if (t instanceof z.ZodNumber) {
+        const bound = (v: number | null) => (v !== null && Number.isSafeInteger(v) ? v : undefined);
+        return { type: 'number', min: bound(t.minValue), max: bound(t.maxValue) };
+    }
+    return { type: 'text', secret: SECRET_KEYS.has(key) };
+}
+
+const shape: Record<string, z.ZodType> = serverPropsSchema.shape;
+
+export function isKnownProperty(key: string): boolean {
+    return Object.hasOwn(shape, key);
+}
+
+/** Every key of serverPropsSchema, by section; keys without a section land in "Advanced". */
+export const PROPERTY_SECTIONS: PropertySection[] = (() => {
+    const placed = new Set<string>();
+    const sections = SECTION_HELP.map(({ title, help }) => ({
+        title,
+        fields: Object.entries(help)
+            .filter(([key]) => isKnownProperty(key))
+            .map(([key, text]) => {
+                placed.add(key);
+                return { key, help: text, control: controlFor(key, shape[key]) };
+            }),
+    }));
+    const rest = Object.keys(shape).filter((key) => !placed.has(key));
+    if (rest.length) {
+        sections.push({ title: 'Advanced', fields: rest.map((key) => ({ key, help: '', control: controlFor(key, shape[key]) })) });
+    }
+    return sections;
+})();
@@ -0,0 +1,180 @@
+import net from 'net';
+import { ServerPing } from '@/lib/types';
+
+// Server List Ping (the multiplayer menu's status query), modern 1.7+ protocol:
+// every packet is [VarInt length][VarInt packet id][data]
+const PACKET_HANDSHAKE = 0x00;
+const PACKET_STATUS = 0x00;
+const PACKET_PING = 0x01;
+const NEXT_STATE_STATUS = 1;
+const ANY_PROTOCOL = -1; // servers answer status requests for any protocol version
+
+export interface PingOptions {
+    host: string;
+    port: number;
+    timeoutMs?: number;
+}
+
+export class PingError extends Error {
+    constructor(message: string, readonly code: 'TIMEOUT' | 'CONNECT' | 'PROTOCOL') {
+        super(message);
+        this.name = 'PingError';
+    }
+}
+
+export function encodeVarInt(value: number): Buffer {
+    const bytes: number[] = [];
+    let v = value >>> 0; // negative numbers go out as five-byte two's complement
+    do {
+        let b = v & 0x7f;
+        v >>>= 7;
+        if (v !== 0) b |= 0x80;
+        bytes.push(b);
+    } while (v !== 0);
+    return Buffer.from(bytes);
+}
+
+/** VarInt at `offset`, or null if `buf` ends before it does. */
+export function decodeVarInt(buf: Buffer, offset = 0): { value: number; size: number } | null {
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+        if (offset + i >= buf.length) return null;
+        const b = buf[offset + i];
+        value |= (b & 0x7f) << (7 * i);
+        if ((b & 0x80) === 0) return { value, size: i + 1 };
+    }
+    throw new PingError('VarInt is too long', 'PROTOCOL');
+}
+
+function encodeString(s: string): Buffer {
+    const data = Buffer.from(s, 'utf8');
+    return Buffer.concat([encodeVarInt(data.length), data]);
+}
+
+function frame(id: number, data: Buffer = Buffer.alloc(0)): Buffer {
+    const body = Buffer.concat([encodeVarInt(id), data]);
+    return Buffer.concat([encodeVarInt(body.length), body]);
+}
+
+/** Split one complete packet off the front of `buf`, or null if more bytes are needed. */
+function readPacket(buf: Buffer): { id: number; data: Buffer; rest: Buffer } | null {
+    const len = decodeVarInt(buf);
+    if (!len || buf.length < len.size + len.value) return null;
+    const body = buf.subarray(len.size, len.size + len.value);
+    const id = decodeVarInt(body);
+    if (!id) throw new PingError('Empty packet', 'PROTOCOL');
+    return { id: id.value, data: body.subarray(id.size), rest: buf.subarray(len.size + len.value) };
+}
+
+type ChatComponent = string | { text?: string; translate?: string; extra?: ChatComponent[] } | ChatComponent[];
+
+/** Flatten a chat component (string, object or array) to plain text without § formatting codes. */
+export function chatToPlainText(c: ChatComponent | undefined): string {
+    let out = '';
+    const walk = (node: ChatComponent | undefined) => {
+        if (node === undefined || node === null) return;
+        if (typeof node === 'string') out += node;
+        else if (Array.isArray(node)) node.forEach(walk);
+        else {
+            out += node.text ?? node.translate ?? '';
+            node.extra?.forEach(walk);
+        }
+    };
+    walk(c);
+    return out.replace(/§[0-9a-fk-or]/gi, '');
+}
+
+type StatusJson = {
+    version?: { name?: string; protocol?: number };
+    players?: { online?: number; max?: number; sample?: { name?: string; id?: string }[] };
+    description?: ChatComponent;
+};
+
+/**
+ * Handshake, read the status JSON, then time a ping/pong round trip for the latency.
+ * Fails if the server does not answer the whole exchange within the timeout.
+ */
+export function pingServer({ host, port, timeoutMs = 3000 }: PingOptions): Promise<ServerPing> {
+    return new Promise((resolve, reject) => {
+        const socket = net.createConnection({ host, port });
+        socket.setNoDelay(true);
+        let buffer: Buffer = Buffer.alloc(0);
+        let status: StatusJson | null = null;
+        let pingSentAt = 0;
+        let connected = false;
+
+        const finish = (err: Error | null, result?: ServerPing) => {
+            clearTimeout(timer);
+            socket.destroy();
+            if (err) reject(err);
+            else resolve(result!);
+        };
+        const timer = setTimeout(() => {
+            finish(new PingError(`No status reply from ${host}:${port} within ${timeoutMs}ms`, 'TIMEOUT'));
+        }, timeoutMs);
+
+        socket.once('connect', () => {
+            connected = true;
+            const port16 = Buffer.alloc(2);
+            port16.writeUInt16BE(port);
+            const handshake = Buffer.concat([
+                encodeVarInt(ANY_PROTOCOL),
+                encodeString(host),
+                port16,
+                encodeVarInt(NEXT_STATE_STATUS),
+            ]);
+            socket.write(frame(PACKET_HANDSHAKE, handshake));
+            socket.write(frame(PACKET_STATUS));
+        });
+
+        socket.on('data', (chunk) => {
+            buffer = Buffer.concat([buffer, chunk]);
+            try {
+                let packet;
+                while ((packet = readPacket(buffer))) {
+                    buffer = packet.rest;
+                    if (!status && packet.id === PACKET_STATUS) {
+                        const len = decodeVarInt(packet.data);
+                        if (!len) throw new PingError('Truncated status reply', 'PROTOCOL');
+                        const json = packet.data.subarray(len.size, len.size + len.value).toString('utf8');
+                        try {
+                            status = JSON.parse(json) as StatusJson;
+                        } catch {
+                            throw new PingError('Status reply is not valid JSON', 'PROTOCOL');
+                        }
+                        const payload = Buffer.alloc(8);
+                        payload.writeBigInt64BE(BigInt(Date.now()));
+                        pingSentAt = performance.now();
+                        socket.write(frame(PACKET_PING, payload));
+                    } else if (status && packet.id === PACKET_PING) {
+                        return finish(null, toServerPing(status, Math.round(performance.now() - pingSentAt)));
+                    }
+                }
+            } catch (e) {
+                finish(e instanceof Error ? e : new PingError('Bad reply', 'PROTOCOL'));
+            }
+        });
+
+        socket.on('error', (e) => {
+            finish(connected ? new PingError(e.message, 'PROTOCOL') : new PingError(e.message, 'CONNECT'));
+        });
+        socket.on('close', () => {
+            // Some servers close instead of answering the ping; the status alone is still useful
+            if (status) finish(null, toServerPing(status, null));
+            else finish(new PingError('Connection closed before the status reply', connected ? 'PROTOCOL' : 'CONNECT'));
+        });
+    });
+}
+
+function toServerPing(s: StatusJson, latencyMs: number | null): ServerPing {
+    return {
+        version: { name: s.version?.name ?? '', protocol: s.version?.protocol ?? null },
+        motd: chatToPlainText(s.description).trim(),
+        players: {
+            online: s.players?.online ?? 0,
+            max: s.players?.max ?? 0,
+            sample: (s.players?.sample ?? []).map((p) => ({ name: p.name ?? '', id: p.id ?? '' })),
+        },
+        latencyMs,
+    };
+}
@@ -0,0 +1,223 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ChildProcess } from 'child_process';
+import { LOG_DIR, readRecentLines, rotateConsoleLogIfLarge } from '@/lib/console';
+import { LaunchOverrides, LaunchResult, launchServer } from '@/lib/launcher';
+import { DEFAULT_LAUNCH_PROFILE, RestartPolicy, restartDelaySeconds } from '@/lib/launchProfile';
+import { clearServerState, isDeliberateStop, listManagedProcesses } from '@/lib/serverProcess';
+import { readLaunchProfile, readPid, readProcessRecord, verifyProcessRecord } from '@/lib/worlds';
+import { CrashHistory, ProcessRecord, ServerExit } from '@/lib/types';
+
+const TICK_MS = 5_000;
+const HISTORY_LIMIT = 50;
+
+// .mc-logs/<world>.exits.json, newest first
+function historyFile(worldName: string) {
+    return path.join(LOG_DIR, `${worldName}.exits.json`);
+}
+
+async function readExits(worldName: string): Promise<ServerExit[]> {
+    try {
+        const data = JSON.parse(await fs.readFile(historyFile(worldName), 'utf8'));
+        return Array.isArray(data) ? data : [];
+    } catch {
+        return [];
+    }
+}
+
+// Adopted servers have no child handle, only their record to poll against
+type Watch = { pid: number; startedAt: number | null; record: ProcessRecord | null };
+type PendingRestart = { crashAt: number; at: number; timer: ReturnType<typeof setTimeout> };
+
+// Supervisor state hangs off globalThis so dev-mode module reloads don't lose track of children
+type SupervisorState = {
+    timer: ReturnType<typeof setInterval> | null;
+    ticking: boolean;
+    watches: Map<string, Watch>;
+    pending: Map<string, PendingRestart>;
+    manualStarts: Map<string, number>;
+    writes: Map<string, Promise<unknown>>;
+};
+const g = globalThis as typeof globalThis & { __mcSupervisor?: SupervisorState };
+const state: SupervisorState = (g.__mcSupervisor ??= {
+    timer: null,
+    ticking: false,
+    watches: new Map(),
+    pending: new Map(),
+    manualStarts: new Map(),
+    writes: new Map(),
+});
+
+// Read-modify-write of a world's history, one at a time
+function updateExits(worldName: string, fn: (exits: ServerExit[]) => ServerExit[]): Promise<void> {
+    const prev = state.writes.get(worldName) ?? Promise.resolve();
+    const next = prev.then(async () => {
+        const exits = fn(await readExits(worldName)).slice(0, HISTORY_LIMIT);
+        await fs.mkdir(LOG_DIR, { recursive: true });
+        await fs.writeFile(historyFile(worldName), JSON.stringify(exits, null, 2), 'utf8');
+    });
+    state.writes.set(worldName, next.catch(() => {}));
+    return next;
+}
+
+function setRestartOutcome(worldName: string, crashAt: number, restart: ServerExit['restart'], restartError?: string) {
+    const at = new Date(crashAt).toISOString();
+    return updateExits(worldName, (exits) =>
+        exits.map((e) => (e.at === at && e.kind === 'crash' ? { ...e, restart, ...(restartError ? { restartError } : {}) } : e))
+    );
+}
+
+async function restartPolicy(worldName: string): Promise<RestartPolicy> {
+    try {
+        return (await readLaunchProfile(worldName)).restart;
+    } catch {
+        return DEFAULT_LAUNCH_PROFILE.restart;
+    }
+}
+
+// Crashes that count against maxRestarts: inside the window and since the last start by hand
+function crashesSince(exits: ServerExit[], worldName: string, policy: RestartPolicy, now: number): number {
+    const since = Math.max(now - policy.windowSeconds * 1000, state.manualStarts.get(worldName) ?? 0);
+    return exits.filter((e) => e.kind === 'crash' && Date.parse(e.at) >= since).length;
+}
+
+function watch(worldName: string, child: ChildProcess) {
+    const pid = child.pid as number;
+    state.watches.set(worldName, { pid, startedAt: Date.now(), record: null });
+    child.once('exit', (code, signal) => {
+        handleExit(worldName, pid, code, signal).catch((e) => console.error(`Supervisor: exit of "${worldName}":`, e));
+    });
+}
+
+// Without an exit code, the console log tells a clean /stop from a crash
+async function stoppedCleanly(worldName: string): Promise<boolean> {
+    const { lines } = await readRecentLines(worldName, 20);
+    return lines.some((l) => /Stopping the server/.test(l));
+}
+
+async function handleExit(worldName: string, pid: number, code: number | null, signal: NodeJS.Signals | null) {
+    const w = state.watches.get(worldName);
+    if (!w || w.pid !== pid) return;
+    state.watches.delete(worldName);
+
+    const now = Date.now();
+    let kind: ServerExit['kind'];
+    if (isDeliberateStop(worldName, { pid })) kind = 'stopped';
+    else if (code === null && signal === null) kind = (await stoppedCleanly(worldName)) ? 'exited' : 'crash';
+    else kind = code === 0 ? 'exited' : 'crash';
+
+    const exit: ServerExit = {
+        at: new Date(now).toISOString(),
+        pid,
+        code,
+        signal,
+        kind,
+        uptimeMs: w.startedAt === null ? null : now - w.startedAt,
+        restart: null,
+        restartAt: null,
+    };
+
+    // stopServer cleans up after its own stops; leave a newer server's files alone
+    if (kind !== 'stopped' && (await readProcessRecord(worldName))?.pid === pid) await clearServerState(worldName);
+
+    if (kind === 'crash') {
+        const policy = await restartPolicy(worldName);
+        const attempt = crashesSince(await readExits(worldName), worldName, policy, now) + 1;
+        if (!policy.enabled) {
+            exit.restart = 'disabled';
+        } else if (attempt > policy.maxRestarts) {
+            exit.restart = 'gave-up';
+            console.error(`Supervisor: "${worldName}" crashed ${attempt} times within ${policy.windowSeconds}s; not restarting`);
+        } else {
+            const delayMs = restartDelaySeconds(policy, attempt) * 1000;
+            exit.restart = 'scheduled';
+            exit.restartAt = new Date(now + delayMs).toISOString();
+            const timer = setTimeout(() => {
+                runRestart(worldName, now).catch((e) => console.error(`Supervisor: restart of "${worldName}":`, e));
+            }, delayMs);
+            state.pending.set(worldName, { crashAt: now, at: now + delayMs, timer });
+        }
+    }
+
+    await updateExits(worldName, (exits) => [exit, ...exits]);
+}
+
+async function runRestart(worldName: string, crashAt: number) {
+    state.pending.delete(worldName);
+    // A stop request after the crash, or a start by hand in the meantime, calls it off
+    if (isDeliberateStop(worldName, { since: crashAt }) || (await readPid(worldName)) !== null) {
+        await setRestartOutcome(worldName, crashAt, 'cancelled');
+        return;
+    }
+    try {
+        const { child } = await launchServer(worldName);
+        watch(worldName, child);
+        await setRestartOutcome(worldName, crashAt, 'restarted');
+    } catch (e) {
+        await setRestartOutcome(worldName, crashAt, 'failed', e instanceof Error ? e.message : 'launch failed');
+    }
+}
+
+function cancelPendingRestart(worldName: string) {
+    const pending = state.pending.get(worldName);
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    state.pending.delete(worldName);
+    setRestartOutcome(worldName, pending.crashAt, 'cancelled').catch(() => {});
+}
+
+/** Start a world by hand and watch it. Replaces a scheduled crash restart and resets the restart count. */
+export async function launchSupervised(worldName: string, overrides: LaunchOverrides = {}): Promise<LaunchResult> {
+    const result = await launchServer(worldName, overrides);
+    cancelPendingRestart(worldName);
+    state.manualStarts.set(worldName, Date.now());
+    watch(worldName, result.child);
+    return result;
+}
+
+export async function getCrashHistory(worldName: string): Promise<CrashHistory> {
+    const exits = await readExits(worldName);
+    const pending = state.pending.get(worldName);
+    const pendingRestartAt =
+        pending && !isDeliberateStop(worldName, { since: pending.crashAt }) ? new Date(pending.at).toISOString() : null;
+    const crashesInWindow = crashesSince(exits, worldName, await restartPolicy(worldName), Date.now());
+    return { exits, pendingRestartAt, crashesInWindow };
+}
+
+// Servers started before this GUI process (or dev reload) have no child handle; their exits are found by polling
+async function adoptRunning() {
+    for (const proc of await listManagedProcesses()) {
+        if (!proc.verified || state.watches.has(proc.world)) continue;
+        const startedAt = proc.startedAt ? Date.parse(proc.startedAt) : null;
+        state.watches.set(proc.world, { pid: proc.pid, startedAt, record: proc });
+    }
+}
+
+async function tick() {
+    for (const [name, w] of state.watches) {
+        if (w.record && !(await verifyProcessRecord(w.record))) await handleExit(name, w.pid, null, null);
+    }
+    await adoptRunning();
+    // The only place a running server's log is size-capped; console streams just read it
+    for (const name of state.watches.keys()) await rotateConsoleLogIfLarge(name);
+}
+
+// A slow tick is skipped over rather than overlapped, so two rotations never race
+async function runTick() {
+    if (state.ticking) return;
+    state.ticking = true;
+    try {
+        await tick();
+    } catch (e) {
+        console.error('Supervisor error:', e);
+    } finally {
+        state.ticking = false;
+    }
+}
+
+export function startSupervisor() {
+    if (state.timer) return;
+    state.timer = setInterval(runTick, TICK_MS);
+    state.timer.unref?.();
+    runTick();
+}
@@ -4,8 +4,202 @@ export interface World {
     name: string;
 }
 
+/** One entry of GET /api/worlds */
+export interface WorldInfo extends World {
+    sizeBytes: number;
+    lastModified: string | null;    // ISO timestamp, newest file in the world folder
+    lastPlayed: string | null;      // ISO timestamp, level.dat mtime
+    hasLevelDat: boolean;
+    hasServerProperties: boolean;
+    version: string | null;         // pinned game version
+    running: boolean;
+    pid: number | null;
+}
+
+/** One archive under backups/ */
+export interface BackupInfo {
+    name: string;           // file name, e.g. "survival-20250101-120000.tar.gz"
+    world: string;
+    createdAt: string;      // ISO timestamp
+    sizeBytes: number;
+    warning?: string;       // tar saw files change while archiving; the archive was kept
+}
+
+/** One entry of GET /api/versions */
+export interface MinecraftVersion {
+    id: string;
+    type: 'release' | 'snapshot' | 'old_beta' | 'old_alpha';
+    releaseTime: string;    // ISO timestamp
+    installed: boolean;     // server jar is in the versions/ cache
+}
+
+/** A server jar download, as reported by GET /api/versions/progress */
+export interface DownloadProgress {
+    version: string;
+    state: 'downloading' | 'verifying' | 'done' | 'failed';
+    receivedBytes: number;
+    totalBytes: number | null;
+    startedAt: string;          // ISO timestamp
+    finishedAt: string | null;
+    error: string | null;
+}
+
+/** A Java installation found on this machine */
+export interface JavaRuntime {
+    path: string;                                   // the java binary
+    version: string;                                // as printed by `java -version`, e.g. "21.0.2"
+    majorVersion: number;
+    source: 'JAVA_HOME' | 'PATH' | 'system';        // system: a common install folder
+}
+
+export type ServerState = 'running' | 'stopping' | 'stopped';
+
+/** What a running server reports to the multiplayer menu (Server List Ping). */
+export interface ServerPing {
+    version: { name: string; protocol: number | null };
+    motd: string;                   // plain text, formatting codes stripped
+    players: {
+        online: number;
+        max: number;
+        sample: { name: string; id: string }[];
+    };
+    latencyMs: number | null;       // null when the server skipped the ping/pong
+}
+
+/** Full stat from the UDP query protocol (enable-query=true). */
+export interface ServerQuery {
+    motd: string;
+    gameType: string;
+    gameId: string;
+    version: string;
+    plugins: { server: string; list: string[] };    // empty on vanilla
+    map: string;                                    // level name
+    numPlayers: number;
+    maxPlayers: number;
+    hostPort: number;
+    hostIp: string;
+    players: string[];                              // every online player, not just a sample
+}
+
+/** Usage of a running server's JVM process, from /proc. */
+export interface ServerResources {
+    uptimeMs: number | null;
+    cpuPercent: number | null;      // like top: 100 is one core fully busy; null until there are two samples
+    cpuCount: number;
+    cpuSeconds: number;             // user + system time since start
+    rssBytes: number;
+    maxHeapBytes: number | null;    // -Xmx it was launched with
+    threads: number;
+    openFds: number | null;
+}
+
+/** One point of a world's history (.mc-metrics/<world>.jsonl); nulls are values that couldn't be read. */
+export interface MetricsSample {
+    t: number;                      // epoch ms; the bucket start for averaged points
+    span?: number;                  // ms averaged into this point; absent on raw samples
+    players: number | null;
+    maxPlayers: number | null;
+    rssBytes: number | null;
+    cpuPercent: number | null;
+    tps: number | null;             // over RCON only
+}
+
+export type MetricsRange = '1h' | '24h' | '7d';
+
+/** GET /api/server/status */
+export interface ServerStatus {
+    running: boolean;
+    state: ServerState;
+    pid: number | null;
+    port: number | null;
+    responding: boolean;            // answered a status ping; false while starting up or hung
+    ping: ServerPing | null;
+    pingError: string | null;
+    resources: ServerResources | null;  // null when stopped or without /proc
+}
+
+/** .mc-pids/<world>.json, written at launch. */
+export interface ProcessRecord {
+    world: string;
+    pid: number;
+    startTicks: number | null;      // /proc/<pid>/stat start time; null for legacy pid files or without /proc
+    startedAt: string | null;
+    cmdline: string[];              // as spawned
+    jar: string | null;
+    port: number | null;
+    worldPath: string;
+}
+
+/** GET /api/admin/processes */
+export interface ManagedProcess extends ProcessRecord {
+    verified: boolean;              // the pid is still the process that was launched
+    state: ServerState;
+}
+
+/** One exit of a supervised server. */
+export interface ServerExit {
+    at: string;                     // ISO time the exit was noticed
+    pid: number;
+    code: number | null;            // null when killed by a signal or seen exiting by polling
+    signal: string | null;
+    kind: 'crash' | 'stopped' | 'exited';   // stopped: via /api/server/stop; exited: clean exit on its own
+    uptimeMs: number | null;
+    // what the supervisor did about it; only crashes are restarted
+    restart: 'scheduled' | 'restarted' | 'failed' | 'cancelled' | 'gave-up' | 'disabled' | null;
+    restartAt: string | null;
+    restartError?: string;
+}
+
+/** GET /api/server/crashes */
+export interface CrashHistory {
+    exits: ServerExit[];            // newest first
+    pendingRestartAt: string | null;
+    crashesInWindow: number;
+}
+
 export type ServerProperties = KnownServerProps & Record<string, string | number | boolean>;
 
+/** presets/<name>.json: server.properties values to apply to any number of worlds. */
+export interface PropertyPreset {
+    name: string;
+    description: string;
+    source: string;                 // "defaults", "world:<name>" or "manual"
+    createdAt: string;
+    updatedAt: string;
+    properties: Record<string, string>;
+}
+
+export interface PropertyChange {
+    key: string;
+    from: string | null;            // null: the world doesn't set the key yet
+    to: string;
+}
+
+/** A saved version of a world config file (server.properties, whitelist.json, ops/ban lists). */
+export interface ConfigVersion {
+    version: number;                // 1, 2, … per file
+    at: string;
+    author: string | null;          // null: changed outside the GUI
+    changedKeys: string[];          // property keys, or list entries (player name, IP)
+    note?: string;
+}
+
+/** A key or list entry between two versions; null where it is absent. */
+export interface ConfigChange {
+    key: string;
+    from: string | null;
+    to: string | null;
+}
+
+/** One world's part of POST /api/presets/apply. */
+export interface PresetApplyResult {
+    world: string;
+    changes: PropertyChange[];
+    applied: boolean;
+    error?: string;
+    fieldErrors?: Record<string, string[]>;
+}
+
 const DIFFICULTY_OPTIONS = ['peaceful', 'easy', 'normal', 'hard'] as const;
 export type Difficulty = typeof DIFFICULTY_OPTIONS[number];
 
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+
+// lib/worlds puts everything under the parent of the cwd; point that at a scratch repo root
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mc-versions-'));
+fs.mkdirSync(path.join(root, 'gui'));
+vi.spyOn(process, 'cwd').mockReturnValue(path.join(root, 'gui'));
+const { QUARANTINE_DIR, installVersion, versionJar } = await import('@/lib/versions');
+
+const ID = '1.21.1';
+const JAR = Buffer.from('PK\u0003\u0004 a perfectly good server jar');
+const sha1 = (b: Buffer) => createHash('sha1').update(b).digest('hex');
+
+// The version JSON is cached next to the jar, so nothing but the jar itself goes to the network
+function installCached(jar: Buffer) {
+    fs.mkdirSync(path.dirname(versionJar(ID)), { recursive: true });
+    fs.writeFileSync(
+        path.join(path.dirname(versionJar(ID)), `${ID}.json`),
+        JSON.stringify({ downloads: { server: { url: 'https://piston-data.mojang.com/server.jar', sha1: sha1(JAR), size: JAR.length } } })
+    );
+    fs.writeFileSync(versionJar(ID), jar);
+}
+
+const fetchJar = vi.fn(async () => new Response(JAR));
+vi.stubGlobal('fetch', fetchJar);
+
+afterEach(() => {
+    fetchJar.mockClear();
+    fs.rmSync(path.join(root, 'versions'), { recursive: true, force: true });
+});
+
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }));
+
+describe('installVersion', () => {
+    it('uses a cached jar whose SHA-1 matches', async () => {
+        installCached(JAR);
+        await expect(installVersion(ID)).resolves.toBe(versionJar(ID));
+        await expect(installVersion(ID)).resolves.toBe(versionJar(ID));
+        expect(fetchJar).not.toHaveBeenCalled();
+    });
+
+    it('re-downloads a cached jar of the right size but the wrong SHA-1', async () => {
+        const corrupt = Buffer.from(JAR);
+        corrupt[corrupt.length - 1] ^= 0xff;
+        installCached(corrupt);
+
+        await expect(installVersion(ID)).resolves.toBe(versionJar(ID));
+        expect(fetchJar).toHaveBeenCalledTimes(1);
+        expect(fs.readFileSync(versionJar(ID))).toEqual(JAR);
+        expect(fs.readdirSync(QUARANTINE_DIR)).toHaveLength(1);
+    });
+
+    it('checks the SHA-1 again when a verified jar changes', async () => {
+        installCached(JAR);
+        await installVersion(ID);
+
+        const corrupt = Buffer.from(JAR);
+        corrupt[0] ^= 0xff;
+        fs.writeFileSync(versionJar(ID), corrupt);
+        const later = new Date(Date.now() + 5000);
+        fs.utimesSync(versionJar(ID), later, later);
+
+        await installVersion(ID);
+        expect(fetchJar).toHaveBeenCalledTimes(1);
+        expect(fs.readFileSync(versionJar(ID))).toEqual(JAR);
+    });
+});
@@ -0,0 +1,317 @@
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { ROOT_DIR, readLaunchProfile, writeLaunchProfile } from '@/lib/worlds';
+import { DownloadProgress, MinecraftVersion } from '@/lib/types';
+
+// Point MC_MANIFEST_BASE_URL at a mirror (e.g. http://localhost:8080) for offline use. The mirror
+// serves the same paths as Mojang; URLs inside the manifest and version JSONs are rewritten to it.
+const MOJANG_BASE_URL = 'https://piston-meta.mojang.com';
+const MOJANG_HOSTS = ['piston-meta.mojang.com', 'piston-data.mojang.com', 'launchermeta.mojang.com', 'launcher.mojang.com'];
+const MANIFEST_PATH = '/mc/game/version_manifest_v2.json';
+const MANIFEST_TTL_MS = 5 * 60_000;
+
+// Managed jar cache: versions/<id>/server.jar, with the version JSON next to it
+export const VERSIONS_DIR = path.join(ROOT_DIR, 'versions');
+// Jars that failed verification are moved here rather than deleted, for inspection
+export const QUARANTINE_DIR = path.join(VERSIONS_DIR, '.quarantine');
+const PROGRESS_TTL_MS = 10 * 60_000; // keep finished downloads around for pollers
+
+export interface MojangManifestVersion {
+    id: string;
+    type: 'release' | 'snapshot' | 'old_beta' | 'old_alpha';
+    url: string;
+    releaseTime: string;
+}
+
+export interface MojangManifest {
+    latest: { release?: string; snapshot?: string };
+    versions: MojangManifestVersion[];
+}
+
+export interface MojangVersionJson {
+    id: string;
+    downloads?: {
+        server?: { url?: string; sha1?: string; size?: number };
+    };
+    javaVersion?: { component?: string; majorVersion?: number };
+}
+
+function baseUrl() {
+    return (process.env.MC_MANIFEST_BASE_URL || MOJANG_BASE_URL).replace(/\/+$/, '');
+}
+
+/** Send Mojang URLs to the configured mirror; unchanged when none is set. */
+export function mirrorUrl(url: string): string {
+    if (!process.env.MC_MANIFEST_BASE_URL) return url;
+    const u = new URL(url);
+    if (!MOJANG_HOSTS.includes(u.hostname)) return url;
+    return `${baseUrl()}${u.pathname}${u.search}`;
+}
+
+async function fetchJson<T>(url: string, what: string): Promise<T> {
+    const res = await fetch(mirrorUrl(url), { cache: 'no-store' });
+    if (!res.ok) throw new Error(`Failed to fetch ${what}: HTTP ${res.status}`);
+    return (await res.json()) as T;
+}
+
+let manifestCache: { at: number; base: string; manifest: MojangManifest } | null = null;
+
+export async function fetchManifest(): Promise<MojangManifest> {
+    const base = baseUrl();
+    if (manifestCache && manifestCache.base === base && Date.now() - manifestCache.at < MANIFEST_TTL_MS) {
+        return manifestCache.manifest;
+    }
+    const manifest = await fetchJson<MojangManifest>(`${base}${MANIFEST_PATH}`, 'version manifest');
+    if (!Array.isArray(manifest?.versions)) throw new Error('Version manifest has no versions list');
+    manifestCache = { at: Date.now(), base, manifest };
+    return manifest;
+}
+
+// Version ids end up in paths; Mojang ids are like "1.21.8", "25w14a", "1.21.5-rc1", "1.14 Pre-Release 2"
+export function validateVersionId(id: string): boolean {
+    return /^[A-Za-z0-9][A-Za-z0-9._ -]*$/.test(id) && !id.includes('..');
+}
+
+export function versionJar(id: string) {
+    return path.join(VERSIONS_DIR, id, 'server.jar');
+}
+
+function versionJsonFile(id: string) {
+    return path.join(VERSIONS_DIR, id, `${id}.json`);
+}
+
+// The jar's SHA-1 as last checked, with the size and mtime it had then, so an unchanged jar is hashed once
+function verifiedFile(id: string) {
+    return path.join(VERSIONS_DIR, id, 'server.jar.verified.json');
+}
+
+type VerifiedJar = { sha1: string; size: number; mtimeMs: number };
+
+async function recordVerified(id: string, sha1: string) {
+    const st = await fs.stat(versionJar(id));
+    const record: VerifiedJar = { sha1, size: st.size, mtimeMs: st.mtimeMs };
+    await fs.writeFile(verifiedFile(id), JSON.stringify(record, null, 2), 'utf8');
+}
+
+async function readVerified(id: string): Promise<VerifiedJar | null> {
+    try {
+        return JSON.parse(await fs.readFile(verifiedFile(id), 'utf8')) as VerifiedJar;
+    } catch {
+        return null;
+    }
+}
+
+async function sha1OfFile(file: string): Promise<string> {
+    const hash = createHash('sha1');
+    await pipeline(createReadStream(file), hash);
+    return hash.digest('hex');
+}
+
+export async function isVersionInstalled(id: string): Promise<boolean> {
+    try {
+        return (await fs.stat(versionJar(id))).isFile();
+    } catch {
+        return false;
+    }
+}
+
+/** Versions that have a jar in the cache, newest download first. */
+export async function listInstalledVersions(): Promise<string[]> {
+    let entries;
+    try {
+        entries = await fs.readdir(VERSIONS_DIR, { withFileTypes: true });
+    } catch {
+        return [];
+    }
+    const installed: { id: string; t: number }[] = [];
+    for (const e of entries) {
+        if (!e.isDirectory()) continue;
+        try {
+            installed.push({ id: e.name, t: (await fs.stat(versionJar(e.name))).mtimeMs });
+        } catch { /* no jar (yet) */ }
+    }
+    return installed.sort((a, b) => b.t - a.t).map((v) => v.id);
+}
+
+/** Releases (and optionally snapshots) from the manifest, newest first, marked if cached. */
+export async function listVersions({ snapshots = false } = {}): Promise<{
+    latest: MojangManifest['latest'];
+    versions: MinecraftVersion[];
+}> {
+    const manifest = await fetchManifest();
+    const installed = new Set(await listInstalledVersions());
+    const versions = manifest.versions
+        .filter((v) => v.type === 'release' || (snapshots && v.type === 'snapshot'))
+        .map((v) => ({ id: v.id, type: v.type, releaseTime: v.releaseTime, installed: installed.has(v.id) }));
+    return { latest: manifest.latest, versions };
+}
+
+/** Version JSON saved by an earlier download, without touching the network. */
+export async function readCachedVersionJson(id: string): Promise<MojangVersionJson | null> {
+    try {
+        return JSON.parse(await fs.readFile(versionJsonFile(id), 'utf8')) as MojangVersionJson;
+    } catch {
+        return null;
+    }
+}
+
+/** Version JSON from the cache, else from the manifest (and cached for next time). */
+export async function readVersionJson(id: string): Promise<MojangVersionJson> {
+    const cached = await readCachedVersionJson(id);
+    if (cached) return cached;
+    const entry = (await fetchManifest()).versions.find((v) => v.id === id);
+    if (!entry) throw new Error(`Unknown version "${id}"`);
+    const json = await fetchJson<MojangVersionJson>(entry.url, `version JSON for ${id}`);
+    await fs.mkdir(path.dirname(versionJsonFile(id)), { recursive: true });
+    await fs.writeFile(versionJsonFile(id), JSON.stringify(json, null, 2), 'utf8');
+    return json;
+}
+
+// Download progress hangs off globalThis so every route module (and dev reloads) share it
+type DownloadState = {
+    progress: Map<string, DownloadProgress>;
+    inflight: Map<string, Promise<void>>; // keyed by destination path
+};
+const g = globalThis as typeof globalThis & { __mcDownloads?: DownloadState };
+const downloads: DownloadState = (g.__mcDownloads ??= { progress: new Map(), inflight: new Map() });
+
+/** Active and recently finished downloads, or just the one for `id`. */
+export function getDownloadProgress(id?: string): DownloadProgress[] {
+    const now = Date.now();
+    for (const [key, p] of downloads.progress) {
+        if (p.finishedAt && now - Date.parse(p.finishedAt) > PROGRESS_TTL_MS) downloads.progress.delete(key);
+    }
+    const all = [...downloads.progress.values()];
+    return id ? all.filter((p) => p.version === id) : all;
+}
+
+async function quarantine(file: string, id: string): Promise<string> {
+    await fs.mkdir(QUARANTINE_DIR, { recursive: true });
+    const dest = path.join(QUARANTINE_DIR, `${id}-${Date.now()}.jar`);
+    await fs.rename(file, dest);
+    return dest;
+}
+
+async function fetchVerifiedJar(id: string, dest: string, progress: DownloadProgress) {
+    const server = (await readVersionJson(id)).downloads?.server;
+    if (!server?.url) throw new Error(`Version "${id}" has no server download`);
+
+    const res = await fetch(mirrorUrl(server.url), { cache: 'no-store' });
+    if (!res.ok || !res.body) throw new Error(`Failed to download server jar: HTTP ${res.status}`);
+    progress.totalBytes = server.size ?? (Number(res.headers.get('content-length')) || null);
+
+    // Stream into a temp file in the same directory so the final rename is atomic
+    await fs.mkdir(path.dirname(dest), { recursive: true });
+    const tmp = path.join(path.dirname(dest), `.${path.basename(dest)}.${process.pid}.part`);
+    const hash = createHash('sha1');
+    const meter = new Transform({
+        transform(chunk: Buffer, _enc, cb) {
+            hash.update(chunk);
+            progress.receivedBytes += chunk.length;
+            cb(null, chunk);
+        },
+    });
+    try {
+        await pipeline(Readable.fromWeb(res.body as NodeReadableStream<Uint8Array>), meter, createWriteStream(tmp));
+    } catch (e) {
+        // Keep what arrived of an interrupted download for inspection
+        if (progress.receivedBytes > 0) await quarantine(tmp, id).catch(() => fs.rm(tmp, { force: true }));
+        else await fs.rm(tmp, { force: true });
+        throw e;
+    }
+
+    progress.state = 'verifying';
+    const sha1 = hash.digest('hex');
+    const problem =
+        server.size !== undefined && progress.receivedBytes !== server.size
+            ? `size ${progress.receivedBytes} does not match expected ${server.size}`
+            : server.sha1 && sha1 !== server.sha1.toLowerCase()
+              ? `SHA-1 ${sha1} does not match expected ${server.sha1}`
+              : null;
+    if (problem) {
+        const moved = await quarantine(tmp, id);
+        throw new Error(`Downloaded jar for ${id} is corrupt (${problem}); moved to ${path.relative(ROOT_DIR, moved)}`);
+    }
+    await fs.rename(tmp, dest);
+    if (server.sha1 && dest === versionJar(id)) await recordVerified(id, sha1);
+}
+
+/**
+ * Download a version's server jar to `dest`: streamed to a temp file, checked against the
+ * size and SHA-1 from the version JSON, then renamed into place. Bad downloads are quarantined.
+ * Concurrent calls for the same destination share one download.
+ */
+export function downloadServerJar(id: string, dest: string): Promise<void> {
+    const existing = downloads.inflight.get(dest);
+    if (existing) return existing;
+
+    const progress: DownloadProgress = {
+        version: id,
+        state: 'downloading',
+        receivedBytes: 0,
+        totalBytes: null,
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        error: null,
+    };
+    downloads.progress.set(dest, progress);
+
+    const run = fetchVerifiedJar(id, dest, progress)
+        .then(() => {
+            progress.state = 'done';
+        })
+        .catch((e) => {
+            progress.state = 'failed';
+            progress.error = e instanceof Error ? e.message : 'download failed';
+            throw e;
+        })
+        .finally(() => {
+            progress.finishedAt = new Date().toISOString();
+            downloads.inflight.delete(dest);
+        });
+    downloads.inflight.set(dest, run);
+    return run;
+}
+
+// A cached jar matches the version JSON: its size always, its SHA-1 once per jar (again if the file changes)
+async function cachedJarIsValid(id: string): Promise<boolean> {
+    const server = (await readVersionJson(id)).downloads?.server;
+    const st = await fs.stat(versionJar(id));
+    if (server?.size !== undefined && st.size !== server.size) return false;
+    if (!server?.sha1) return true;
+    const expected = server.sha1.toLowerCase();
+    const verified = await readVerified(id);
+    if (verified?.sha1 === expected && verified.size === st.size && verified.mtimeMs === st.mtimeMs) return true;
+    const sha1 = await sha1OfFile(versionJar(id));
+    if (sha1 !== expected) return false;
+    await recordVerified(id, sha1);
+    return true;
+}
+
+/**
+ * Make sure versions/<id>/server.jar exists, downloading it if needed. Returns its path.
+ * A cached jar whose size or SHA-1 disagrees with the version JSON (a partial or corrupted
+ * copy) is quarantined and fetched again.
+ */
+export async function installVersion(id: string): Promise<string> {
+    if (!validateVersionId(id)) throw new Error('Invalid version id');
+    const jar = versionJar(id);
+    if (await isVersionInstalled(id)) {
+        if (await cachedJarIsValid(id)) return jar;
+        await fs.rm(verifiedFile(id), { force: true });
+        await quarantine(jar, id);
+    }
+    await downloadServerJar(id, jar);
+    return jar;
+}
+
+/** Pin (or with null, unpin) a world's version in its launch profile. */
+export async function pinVersion(worldName: string, id: string | null) {
+    const profile = await readLaunchProfile(worldName);
+    await writeLaunchProfile(worldName, { ...profile, version: id ?? undefined });
+}
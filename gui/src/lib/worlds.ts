@@ -0,0 +1,277 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ProcessRecord, WorldInfo } from '@/lib/types';
+import { HAS_PROCFS, readProcCmdline, readProcStat } from '@/lib/procfs';
+import { parsePropertiesText, patchPropertiesText } from '@/lib/properties';
+import { validateServerProps } from '@/lib/serverProps';
+import { ChangeMeta, writeConfigFile } from '@/lib/configHistory';
+import { LaunchProfile, launchProfileSchema } from '@/lib/launchProfile';
+
+// Paths: repo root is one level up from gui/ (same layout as the API routes)
+export const GUI_DIR = process.cwd();
+export const ROOT_DIR = path.resolve(GUI_DIR, '..');          // repo root where worlds/ lives
+export const PUBLIC_DIR = path.join(GUI_DIR, 'public');       // gui/public
+export const WORLDS_DIR = path.join(ROOT_DIR, 'worlds');
+export const DEFAULT_SERVER_PROPERTIES = path.join(PUBLIC_DIR, 'default-server.properties');
+export const PID_DIR = path.join(ROOT_DIR, '.mc-pids');
+
+export function validateWorldName(world: string): boolean {
+    return /^[A-Za-z0-9._-]+$/.test(world);
+}
+
+export function worldDir(worldName: string) {
+    return path.join(WORLDS_DIR, worldName);
+}
+
+// Legacy plain-pid file; only read to adopt servers started before process records existed
+export function pidFile(worldName: string) {
+    return path.join(PID_DIR, `${worldName}.pid`);
+}
+
+/** .mc-pids/<world>.json: what was launched, so a pid is only trusted while it is still that process. */
+export function processRecordFile(worldName: string) {
+    return path.join(PID_DIR, `${worldName}.json`);
+}
+
+export function isAlive(pid: number): boolean {
+    try {
+        if (!Number.isInteger(pid) || pid <= 0) return false;
+        process.kill(pid, 0);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export async function writeProcessRecord(record: ProcessRecord) {
+    await fs.mkdir(PID_DIR, { recursive: true });
+    await fs.writeFile(processRecordFile(record.world), JSON.stringify(record, null, 2), 'utf8');
+}
+
+/** The world's process record, or one built from a legacy pid file (startTicks null, nothing else known). */
+export async function readProcessRecord(worldName: string): Promise<ProcessRecord | null> {
+    try {
+        const rec = JSON.parse(await fs.readFile(processRecordFile(worldName), 'utf8')) as ProcessRecord;
+        if (Number.isInteger(rec.pid) && rec.pid > 0) return { ...rec, world: worldName };
+    } catch { /* fall back to the legacy file */ }
+    try {
+        const pid = Number.parseInt(await fs.readFile(pidFile(worldName), 'utf8'), 10);
+        if (!Number.isInteger(pid) || pid <= 0) return null;
+        return { world: worldName, pid, startTicks: null, startedAt: null, cmdline: [], jar: null, port: null, worldPath: worldDir(worldName) };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Whether the record's pid is still the process we launched: same start time in /proc (or, for
+ * legacy records, a command line naming the world folder). Without /proc only liveness is checked.
+ */
+export async function verifyProcessRecord(record: ProcessRecord): Promise<boolean> {
+    if (!HAS_PROCFS) return isAlive(record.pid);
+    const stat = await readProcStat(record.pid);
+    if (!stat || stat.state === 'Z') return false;
+    if (record.startTicks !== null) return stat.startTicks === record.startTicks;
+    const cmdline = await readProcCmdline(record.pid);
+    return cmdline !== null && cmdline.includes(record.worldPath);
+}
+
+/** Pid of the world's server if its record checks out against the live process, else null. */
+export async function readPid(worldName: string): Promise<number | null> {
+    const record = await readProcessRecord(worldName);
+    return record && (await verifyProcessRecord(record)) ? record.pid : null;
+}
+
+async function exists(p: string): Promise<boolean> {
+    try {
+        await fs.access(p);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Walk the folder once; symlinks are counted as themselves, not followed
+async function scanDir(dir: string): Promise<{ size: number; mtimeMs: number }> {
+    let size = 0;
+    let mtimeMs = 0;
+    let entries;
+    try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+        return { size, mtimeMs };
+    }
+    for (const e of entries) {
+        const p = path.join(dir, e.name);
+        if (e.isDirectory()) {
+            const sub = await scanDir(p);
+            size += sub.size;
+            mtimeMs = Math.max(mtimeMs, sub.mtimeMs);
+            continue;
+        }
+        try {
+            const st = await fs.lstat(p);
+            size += st.size;
+            mtimeMs = Math.max(mtimeMs, st.mtimeMs);
+        } catch { /* vanished mid-scan */ }
+    }
+    return { size, mtimeMs };
+}
+
+/** Parsed worlds/<name>/server.properties, or null if the world has none. */
+export async function readWorldProperties(worldName: string): Promise<Record<string, string> | null> {
+    try {
+        return parsePropertiesText(await fs.readFile(path.join(worldDir(worldName), 'server.properties'), 'utf8'));
+    } catch {
+        return null;
+    }
+}
+
+export function launcherFile(worldName: string) {
+    return path.join(worldDir(worldName), 'launcher.json');
+}
+
+/**
+ * worlds/<name>/launcher.json with defaults filled in (all defaults when missing).
+ * Throws with a readable message when the file exists but is not a valid profile.
+ */
+export async function readLaunchProfile(worldName: string): Promise<LaunchProfile> {
+    let raw: unknown = {};
+    try {
+        raw = JSON.parse(await fs.readFile(launcherFile(worldName), 'utf8'));
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw new Error('launcher.json is not valid JSON');
+    }
+    const parsed = launchProfileSchema.safeParse(raw);
+    if (!parsed.success) {
+        const problems = parsed.error.issues.map((i) => `${i.path.join('.') || 'profile'}: ${i.message}`);
+        throw new Error(`launcher.json is invalid (${problems.join('; ')})`);
+    }
+    return parsed.data;
+}
+
+export async function writeLaunchProfile(worldName: string, profile: LaunchProfile) {
+    await fs.writeFile(launcherFile(worldName), JSON.stringify(profile, null, 2), 'utf8');
+}
+
+/** Version pinned in worlds/<name>/launcher.json, if any. Lenient: ignores the rest of the profile. */
+export async function readPinnedVersion(worldName: string): Promise<string | null> {
+    try {
+        const json = JSON.parse(await fs.readFile(launcherFile(worldName), 'utf8')) as unknown;
+        const version = (json as { version?: unknown } | null)?.version;
+        return typeof version === 'string' && version.trim() ? version.trim() : null;
+    } catch {
+        return null;
+    }
+}
+
+export async function readWorldInfo(worldName: string): Promise<WorldInfo> {
+    const dir = worldDir(worldName);
+    const levelDat = path.join(dir, 'level.dat');
+
+    const [scan, hasLevelDat, hasServerProperties, version, pid] = await Promise.all([
+        scanDir(dir),
+        exists(levelDat),
+        exists(path.join(dir, 'server.properties')),
+        readPinnedVersion(worldName),
+        readPid(worldName),
+    ]);
+
+    // The server rewrites level.dat on every save, so its mtime is the last time the world was played
+    let lastPlayed: string | null = null;
+    if (hasLevelDat) {
+        try {
+            lastPlayed = (await fs.stat(levelDat)).mtime.toISOString();
+        } catch { /* ignore */ }
+    }
+
+    const running = pid !== null && isAlive(pid);
+    return {
+        name: worldName,
+        sizeBytes: scan.size,
+        lastModified: scan.mtimeMs ? new Date(scan.mtimeMs).toISOString() : null,
+        lastPlayed,
+        hasLevelDat,
+        hasServerProperties,
+        version,
+        running,
+        pid: running ? pid : null,
+    };
+}
+
+/** Every folder under worlds/ with a valid world name. */
+export async function listWorldNames(): Promise<string[]> {
+    try {
+        const entries = await fs.readdir(WORLDS_DIR, { withFileTypes: true });
+        return entries
+            .filter(e => e.isDirectory() && validateWorldName(e.name))
+            .map(e => e.name);
+    } catch {
+        // No worlds/ yet
+        return [];
+    }
+}
+
+export async function listWorlds(): Promise<WorldInfo[]> {
+    const names = await listWorldNames();
+    return Promise.all(names.map(readWorldInfo));
+}
+
+/**
+ * Write worlds/<name>/server.properties from the bundled defaults, with overrides applied.
+ * Never overwrites an existing file; returns whether one was written.
+ */
+export async function seedServerProperties(
+    worldName: string,
+    overrides: Record<string, unknown> = {}
+): Promise<boolean> {
+    const dest = path.join(worldDir(worldName), 'server.properties');
+    if (await exists(dest)) return false;
+    const template = await fs.readFile(DEFAULT_SERVER_PROPERTIES, 'utf8');
+    await fs.mkdir(worldDir(worldName), { recursive: true });
+    try {
+        // "wx" so a concurrent writer wins instead of being clobbered
+        await fs.writeFile(dest, patchPropertiesText(template, overrides), { encoding: 'utf8', flag: 'wx' });
+        return true;
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'EEXIST') return false;
+        throw e;
+    }
+}
+
+/**
+ * Change keys in worlds/<name>/server.properties in place, keeping comments and order.
+ * The write is kept in the file's change history under `change`.
+ */
+export async function patchWorldProperties(
+    worldName: string,
+    patch: Record<string, unknown>,
+    change: ChangeMeta = { author: null }
+) {
+    await writeConfigFile(worldDir(worldName), 'server.properties', (text) => {
+        if (text === null) throw new Error(`server.properties not found for world "${worldName}"`);
+        return patchPropertiesText(text, patch);
+    }, change);
+}
+
+/**
+ * Validated write of server.properties keys (what PUT /api/server-properties does): nothing is
+ * written unless every key passes serverPropsSchema. Returns the per-key errors, or null once written.
+ */
+export async function updateWorldProperties(
+    worldName: string,
+    patch: Record<string, unknown>,
+    change: ChangeMeta = { author: null }
+): Promise<Record<string, string[]> | null> {
+    const { values, fieldErrors } = validateServerProps(patch);
+    if (Object.keys(fieldErrors).length) return fieldErrors;
+    await patchWorldProperties(worldName, values, change);
+    return null;
+}
+
+/** Create worlds/<name>/ with a seeded server.properties. */
+export async function createWorld(worldName: string, overrides: Record<string, unknown> = {}): Promise<WorldInfo> {
+    await fs.mkdir(worldDir(worldName), { recursive: true });
+    await seedServerProperties(worldName, overrides);
+    return readWorldInfo(worldName);
+}